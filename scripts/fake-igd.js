@@ -0,0 +1,142 @@
+#!/usr/bin/env node
+/**
+ * Fake UPnP Internet Gateway Device for testing port mapping without a router.
+ * Answers SSDP M-SEARCH requests and the WANIPConnection SOAP actions the
+ * listener uses (AddPortMapping, GetExternalIPAddress, DeletePortMapping).
+ *
+ * Usage:
+ *   node scripts/fake-igd.js
+ *   node scripts/fake-igd.js --ssdp-port 1901 --external-ip 203.0.113.7 --permanent-only
+ *
+ * Then point the listener at it and start it:
+ *   thought-traveller config set upnp_ssdp_address 127.0.0.1:1901
+ *   thought-traveller start
+ */
+
+const dgram = require('dgram');
+const http = require('http');
+
+const args = process.argv.slice(2);
+function option(name, fallback) {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : fallback;
+}
+
+const ssdpPort = parseInt(option('--ssdp-port', '1901'), 10);
+const externalIp = option('--external-ip', '203.0.113.7');
+const permanentOnly = args.includes('--permanent-only');
+const SERVICE_TYPE = 'urn:schemas-upnp-org:service:WANIPConnection:1';
+
+const mappings = new Map();
+
+function soapResponse(action, body = '') {
+  return '<?xml version="1.0"?>' +
+    '<s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/" s:encodingStyle="http://schemas.xmlsoap.org/soap/encoding/">' +
+    `<s:Body><u:${action}Response xmlns:u="${SERVICE_TYPE}">${body}</u:${action}Response></s:Body></s:Envelope>`;
+}
+
+function soapFault(code, description) {
+  return '<?xml version="1.0"?>' +
+    '<s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/"><s:Body><s:Fault>' +
+    '<faultcode>s:Client</faultcode><faultstring>UPnPError</faultstring><detail>' +
+    `<UPnPError xmlns="urn:schemas-upnp-org:control-1-0"><errorCode>${code}</errorCode>` +
+    `<errorDescription>${description}</errorDescription></UPnPError></detail></s:Fault></s:Body></s:Envelope>`;
+}
+
+function value(xml, tag) {
+  const match = xml.match(new RegExp(`<${tag}>([^<]*)</${tag}>`));
+  return match ? match[1] : '';
+}
+
+const httpServer = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', (chunk) => (body += chunk));
+  req.on('end', () => {
+    if (req.method === 'GET' && req.url === '/rootDesc.xml') {
+      res.writeHead(200, { 'Content-Type': 'text/xml' });
+      res.end(
+        '<?xml version="1.0"?><root xmlns="urn:schemas-upnp-org:device-1-0"><device>' +
+        '<deviceType>urn:schemas-upnp-org:device:InternetGatewayDevice:1</deviceType>' +
+        '<deviceList><device><deviceType>urn:schemas-upnp-org:device:WANDevice:1</deviceType>' +
+        '<deviceList><device><deviceType>urn:schemas-upnp-org:device:WANConnectionDevice:1</deviceType>' +
+        `<serviceList><service><serviceType>${SERVICE_TYPE}</serviceType>` +
+        '<controlURL>/ctl/IPConn</controlURL></service></serviceList>' +
+        '</device></deviceList></device></deviceList></device></root>'
+      );
+      return;
+    }
+
+    if (req.method === 'POST' && req.url === '/ctl/IPConn') {
+      const action = (req.headers.soapaction || '').replace(/"/g, '').split('#')[1];
+      res.setHeader('Content-Type', 'text/xml');
+
+      switch (action) {
+        case 'AddPortMapping': {
+          const lease = parseInt(value(body, 'NewLeaseDuration'), 10);
+          if (permanentOnly && lease !== 0) {
+            console.log(`AddPortMapping rejected: lease ${lease}s (permanent only)`);
+            res.writeHead(500);
+            res.end(soapFault(725, 'OnlyPermanentLeasesSupported'));
+            return;
+          }
+          const port = value(body, 'NewExternalPort');
+          mappings.set(port, `${value(body, 'NewInternalClient')}:${value(body, 'NewInternalPort')}`);
+          console.log(`AddPortMapping: ${port} -> ${mappings.get(port)} (lease ${lease}s)`);
+          res.end(soapResponse(action));
+          return;
+        }
+        case 'GetExternalIPAddress':
+          res.end(soapResponse(action, `<NewExternalIPAddress>${externalIp}</NewExternalIPAddress>`));
+          return;
+        case 'DeletePortMapping': {
+          const port = value(body, 'NewExternalPort');
+          if (!mappings.delete(port)) {
+            res.writeHead(500);
+            res.end(soapFault(714, 'NoSuchEntryInArray'));
+            return;
+          }
+          console.log(`DeletePortMapping: ${port}`);
+          res.end(soapResponse(action));
+          return;
+        }
+        default:
+          res.writeHead(500);
+          res.end(soapFault(401, 'Invalid Action'));
+          return;
+      }
+    }
+
+    res.writeHead(404);
+    res.end();
+  });
+});
+
+httpServer.listen(0, '127.0.0.1', () => {
+  const location = `http://127.0.0.1:${httpServer.address().port}/rootDesc.xml`;
+
+  const ssdp = dgram.createSocket('udp4');
+  ssdp.on('message', (message, rinfo) => {
+    const text = message.toString();
+    if (!text.startsWith('M-SEARCH')) {
+      return;
+    }
+    const st = (text.match(/^ST:\s*(.+)$/im) || [])[1] || 'upnp:rootdevice';
+    const response = [
+      'HTTP/1.1 200 OK',
+      'CACHE-CONTROL: max-age=120',
+      `ST: ${st.trim()}`,
+      'USN: uuid:fake-igd::urn:schemas-upnp-org:device:InternetGatewayDevice:1',
+      'EXT:',
+      `LOCATION: ${location}`,
+      '',
+      '',
+    ].join('\r\n');
+    ssdp.send(response, rinfo.port, rinfo.address);
+  });
+
+  ssdp.bind(ssdpPort, '127.0.0.1', () => {
+    console.log(`Fake IGD listening for SSDP on 127.0.0.1:${ssdpPort}`);
+    console.log(`Description: ${location}`);
+    console.log(`External IP: ${externalIp}${permanentOnly ? ' (permanent leases only)' : ''}`);
+  });
+});
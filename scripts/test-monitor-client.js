@@ -54,10 +54,13 @@ if (autoResponse) {
 console.log('');
 
 // Build WebSocket URL
-const wsUrl = `${protocol}://localhost:${port}/monitor?token=${encodeURIComponent(token)}&deviceId=${encodeURIComponent(deviceId)}&deviceName=${encodeURIComponent(deviceName)}`;
+const wsUrl = `${protocol}://localhost:${port}/monitor?deviceId=${encodeURIComponent(deviceId)}&deviceName=${encodeURIComponent(deviceName)}`;
 
-// WebSocket options - reject unauthorized false for self-signed certs
-const wsOptions = useTls ? { rejectUnauthorized: false } : {};
+// WebSocket options - token in the Authorization header, reject unauthorized false for self-signed certs
+const wsOptions = {
+  headers: { Authorization: `Bearer ${token}` },
+  ...(useTls && { rejectUnauthorized: false }),
+};
 
 const ws = new WebSocket(wsUrl, wsOptions);
 
@@ -0,0 +1,84 @@
+import * as fs from 'fs';
+import { ConversationArchive, ConversationPayload } from './types';
+
+const ARCHIVE_FORMAT = 'thought-traveller-conversation';
+const ARCHIVE_VERSION = 1;
+
+export function generateArchive(payload: ConversationPayload, projectName: string): ConversationArchive {
+  return {
+    format: ARCHIVE_FORMAT,
+    archive_version: ARCHIVE_VERSION,
+    conversation_id: payload.conversation_id,
+    project_tag: payload.project_tag,
+    project_name: projectName,
+    created_at: payload.timestamp,
+    last_updated: payload.timestamp,
+    payload_version: payload.version,
+    metadata: { ...payload.metadata },
+    messages: payload.conversation.messages.map((message) => ({ ...message })),
+    continuations: [],
+  };
+}
+
+/**
+ * Merge a continuation payload into an existing archive.
+ * Messages the archive already holds are kept as-is; payload messages from
+ * startIndex on are appended. For a revision, archive messages from startIndex
+ * on are replaced instead, and kept in the continuation record.
+ */
+export function mergeArchiveContinuation(
+  archive: ConversationArchive,
+  payload: ConversationPayload,
+  startIndex: number,
+  revision: boolean = false
+): { archive: ConversationArchive; messagesAdded: number } {
+  const newMessages = payload.conversation.messages.slice(startIndex).map((message) => ({ ...message }));
+  const keptCount = revision ? startIndex : archive.messages.length;
+
+  const merged: ConversationArchive = {
+    ...archive,
+    last_updated: payload.timestamp,
+    payload_version: payload.version,
+    metadata: { ...payload.metadata },
+    messages: [...archive.messages.slice(0, keptCount), ...newMessages],
+    continuations: [
+      ...archive.continuations,
+      {
+        timestamp: payload.timestamp,
+        previous_message_count: archive.messages.length,
+        messages_added: newMessages.length,
+        metadata: { ...payload.metadata },
+        ...(revision && { revised_from: startIndex, replaced_messages: archive.messages.slice(startIndex) }),
+      },
+    ],
+  };
+
+  return { archive: merged, messagesAdded: newMessages.length };
+}
+
+export function isConversationArchive(value: unknown): value is ConversationArchive {
+  const candidate = value as ConversationArchive | null;
+  return (
+    !!candidate &&
+    candidate.format === ARCHIVE_FORMAT &&
+    typeof candidate.conversation_id === 'string' &&
+    Array.isArray(candidate.messages)
+  );
+}
+
+export function readArchive(filePath: string): ConversationArchive {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  const parsed = JSON.parse(content) as unknown;
+  if (!isConversationArchive(parsed)) {
+    throw new Error(`Not a conversation archive: ${filePath}`);
+  }
+  return parsed;
+}
+
+export function serializeArchive(archive: ConversationArchive): string {
+  return JSON.stringify(archive, null, 2) + '\n';
+}
+
+export function writeArchive(filePath: string, archive: ConversationArchive): void {
+  fs.writeFileSync(filePath, serializeArchive(archive), 'utf-8');
+}
@@ -0,0 +1,71 @@
+import * as crypto from 'crypto';
+import { IncomingMessage } from 'http';
+import { URL } from 'url';
+import { AuthIdentity, Config } from './types';
+import { findDeviceByToken, recordDeviceSeen } from './devices';
+import { isLoopback } from './rate-limit';
+
+// Digests are always the same byte length, whatever characters the strings contain
+export function constantTimeCompare(a: string, b: string): boolean {
+  const digestA = crypto.createHash('sha256').update(a).digest();
+  const digestB = crypto.createHash('sha256').update(b).digest();
+  return crypto.timingSafeEqual(digestA, digestB);
+}
+
+// Offered alongside the token subprotocol; the server echoes this one, never the token
+export const MONITOR_SUBPROTOCOL = 'thought-traveller';
+export const TOKEN_SUBPROTOCOL_PREFIX = 'bearer.';
+
+export type TokenSource = 'header' | 'subprotocol' | 'query';
+
+export function parseBearerToken(header: string | undefined): string | null {
+  return header && header.startsWith('Bearer ') ? header.slice(7) : null;
+}
+
+/**
+ * Token for a WebSocket upgrade, in order of preference: an Authorization
+ * header (native clients), a "bearer.<token>" subprotocol (browsers can't set
+ * headers), or the legacy ?token= query parameter.
+ */
+export function getUpgradeToken(request: IncomingMessage, url: URL): { token: string; source: TokenSource } | null {
+  const headerToken = parseBearerToken(request.headers.authorization);
+  if (headerToken) {
+    return { token: headerToken, source: 'header' };
+  }
+
+  const protocols = (request.headers['sec-websocket-protocol'] || '').split(',').map((p) => p.trim());
+  const protocolToken = protocols.find((p) => p.startsWith(TOKEN_SUBPROTOCOL_PREFIX));
+  if (protocolToken) {
+    return { token: protocolToken.slice(TOKEN_SUBPROTOCOL_PREFIX.length), source: 'subprotocol' };
+  }
+
+  const queryToken = url.searchParams.get('token');
+  return queryToken ? { token: queryToken, source: 'query' } : null;
+}
+
+/**
+ * Resolve a bearer token to a registered device, falling back to the shared
+ * listener.auth_token. With listener.allow_shared_token off, the shared token
+ * is only accepted from this machine, so once every phone has its own token a
+ * lost one can be revoked. Returns null when nothing matches.
+ */
+export function authenticateToken(token: string, config: Config, ip: string): AuthIdentity | null {
+  const device = findDeviceByToken(token);
+  if (device) {
+    recordDeviceSeen(device.id);
+    return { kind: 'device', device };
+  }
+
+  if (config.listener.auth_token && constantTimeCompare(token, config.listener.auth_token)) {
+    if (config.listener.allow_shared_token === false && !isLoopback(ip)) {
+      return null;
+    }
+    return { kind: 'shared' };
+  }
+
+  return null;
+}
+
+export function describeIdentity(identity: AuthIdentity): string {
+  return identity.kind === 'device' ? `${identity.device.name} (${identity.device.id})` : 'shared token';
+}
@@ -1,11 +1,14 @@
 import Bonjour, { Service } from 'bonjour-service';
 import { execSync } from 'child_process';
 import * as os from 'os';
-import { Config } from './types';
+import { Config, PortMappingStatus } from './types';
 import { getLogger } from './logger';
+import { getPortMappingStatus, onPortMappingChange } from './upnp';
 
 let bonjour: Bonjour | null = null;
 let publishedService: Service | null = null;
+let published: { config: Config; protocol: 'http' | 'https'; externalAddress: string } | null = null;
+let watchingPortMapping = false;
 
 const SERVICE_TYPE = 'thoughttraveller';
 const VERSION = '1.0.0';
@@ -66,47 +69,86 @@ function getLocalIPv4Address(): string | null {
   return null;
 }
 
-export function startBonjourAdvertising(config: Config, protocol: 'http' | 'https'): void {
-  if (!config.network.bonjour_enabled) {
-    getLogger().info('Bonjour advertising disabled in config');
+// "ip:port" reachable from outside the LAN, when the router port mapping is up
+function getExternalAddress(status: PortMappingStatus): string {
+  return status.state === 'mapped' && status.externalIp ? `${status.externalIp}:${status.externalPort}` : '';
+}
+
+function publishService(config: Config, protocol: 'http' | 'https', probe: boolean): void {
+  const externalAddress = getExternalAddress(getPortMappingStatus());
+  const ipAddress = getLocalIPv4Address();
+  const hostname = getLocalHostname();
+  // Use LocalHostName with .local suffix for proper mDNS resolution
+  const host = `${hostname}.local`;
+
+  const txtRecord: Record<string, string> = {
+    id: config.listener.id,
+    version: VERSION,
+    protocol: protocol,
+  };
+
+  // Include IP address - iOS should use this directly to avoid hostname resolution issues
+  if (ipAddress) {
+    txtRecord.ip = ipAddress;
+  }
+
+  // Address to use away from home, when the router port mapping is up
+  if (externalAddress) {
+    txtRecord.external = externalAddress;
+  }
+
+  publishedService = bonjour!.publish({
+    name: config.listener.friendly_name,
+    type: SERVICE_TYPE,
+    port: config.listener.port,
+    host: host,
+    txt: txtRecord,
+    probe,
+  });
+  published = { config, protocol, externalAddress };
+
+  publishedService.on('up', () => {
+    const ipInfo = ipAddress ? `, ip: ${ipAddress}` : '';
+    const externalInfo = externalAddress ? `, external: ${externalAddress}` : '';
+    getLogger().info(`Bonjour: Advertising as "${config.listener.friendly_name}" on _${SERVICE_TYPE}._tcp (host: ${host}${ipInfo}${externalInfo})`);
+  });
+
+  publishedService.on('error', (err: Error) => {
+    getLogger().warn(`Bonjour advertising error: ${err.message}`);
+  });
+}
+
+// TXT records can't be changed in place, so re-publish when the external address changes
+function handlePortMappingChange(status: PortMappingStatus): void {
+  if (!published || !bonjour || getExternalAddress(status) === published.externalAddress) {
     return;
   }
 
   try {
-    bonjour = new Bonjour();
-    const ipAddress = getLocalIPv4Address();
-    const hostname = getLocalHostname();
-    // Use LocalHostName with .local suffix for proper mDNS resolution
-    const host = `${hostname}.local`;
-
-    const txtRecord: Record<string, string> = {
-      id: config.listener.id,
-      version: VERSION,
-      protocol: protocol,
-    };
-
-    // Include IP address - iOS should use this directly to avoid hostname resolution issues
-    if (ipAddress) {
-      txtRecord.ip = ipAddress;
+    if (publishedService && typeof publishedService.stop === 'function') {
+      publishedService.stop();
     }
+    // Skip probing: the name conflict would be with our own previous announcement
+    publishService(published.config, published.protocol, false);
+  } catch (err) {
+    getLogger().warn(`Failed to update Bonjour advertisement: ${(err as Error).message}`);
+  }
+}
 
-    publishedService = bonjour.publish({
-      name: config.listener.friendly_name,
-      type: SERVICE_TYPE,
-      port: config.listener.port,
-      host: host,
-      txt: txtRecord,
-    });
-
-    publishedService.on('up', () => {
-      const ipInfo = ipAddress ? `, ip: ${ipAddress}` : '';
-      getLogger().info(`Bonjour: Advertising as "${config.listener.friendly_name}" on _${SERVICE_TYPE}._tcp (host: ${host}${ipInfo})`);
-    });
+export function startBonjourAdvertising(config: Config, protocol: 'http' | 'https'): void {
+  if (!config.network.bonjour_enabled) {
+    getLogger().info('Bonjour advertising disabled in config');
+    return;
+  }
 
-    publishedService.on('error', (err: Error) => {
-      getLogger().warn(`Bonjour advertising error: ${err.message}`);
-    });
+  if (!watchingPortMapping) {
+    onPortMappingChange(handlePortMappingChange);
+    watchingPortMapping = true;
+  }
 
+  try {
+    bonjour = new Bonjour();
+    publishService(config, protocol, true);
   } catch (err) {
     getLogger().warn(`Failed to start Bonjour advertising: ${(err as Error).message}`);
   }
@@ -121,6 +163,7 @@ export function stopBonjourAdvertising(): void {
     // Ignore errors during shutdown
   }
   publishedService = null;
+  published = null;
 
   try {
     if (bonjour && typeof bonjour.destroy === 'function') {
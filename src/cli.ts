@@ -21,12 +21,67 @@ import {
   loadBriefGeneratorPrompt,
   createDefaultBriefGeneratorPrompt,
   getBriefGeneratorPromptPath,
+  loadPermissions,
 } from './config';
 import { startServer, stopServer, VERSION, ServerInfo } from './server';
-import { initLogger, getLogger } from './logger';
+import { initLogger, getLogger, closeLogger, resolveLoggingConfig, REDACTION_MODES } from './logger';
 import { generateCertificates, getCertificateFingerprint, enableTls, disableTls } from './tls';
 import { startBonjourAdvertising, stopBonjourAdvertising, isBonjourRunning } from './bonjour';
-import { Config } from './types';
+import { Config, HealthResponse, IpLockout, ListenerProcessStatus, LogLevel, PortMappingStatus, RedactionMode } from './types';
+import { validateFilenamePattern, FILENAME_TOKENS, DEFAULT_NOTE_PATTERN } from './filename-template';
+import {
+  HOOK_EVENTS,
+  HOOK_TIMEOUT_MARGIN_SECONDS,
+  DEFAULT_PERMISSION_MATCHER,
+  HookEvent,
+  HookInstallEntry,
+  HookInput,
+  HookScope,
+  getSettingsPath,
+  getInstalledHooks,
+  installHooks,
+  uninstallHooks,
+  runHook,
+  resolveProjectTag,
+} from './hooks';
+import { McpServer, createListenerBackend, serveStdio } from './mcp';
+import { addPermissionRule, removePermissionRules } from './permissions';
+import { getPortMappingStatus } from './upnp';
+import { requestListener } from './client';
+import { addDevice, listDevices, renameDevice, revokeDevice } from './devices';
+import { buildPairingUri } from './pairing';
+import { resolveRateLimitConfig } from './rate-limit';
+import { FIXABLE_ISSUE_KINDS, IndexIssueKind, IndexReport, rebuildIndexes, verifyIndexes } from './reindex';
+import { encodeQrCode, renderQrCodeText } from './qrcode';
+import {
+  DAEMON_ENV,
+  spawnDaemon,
+  stopDaemon,
+  getRunningListenerStatus,
+  startControlServer,
+  stopControlServer,
+  sendControlCommand,
+} from './daemon';
+import {
+  LOG_LEVELS,
+  LogFilter,
+  LogLine,
+  followLog,
+  parseGrepPattern,
+  parseTimeSpec,
+  readLastLogLines,
+} from './logs';
+import {
+  SERVICE_NAME,
+  UnitState,
+  assertSystemdSupported,
+  enableLinger,
+  getServiceStatus,
+  getServiceUnitPath,
+  getSocketUnitPath,
+  installService,
+  uninstallService,
+} from './service';
 
 const program = new Command();
 
@@ -97,7 +152,24 @@ function printNetworkInfo(config: Config, protocol: 'http' | 'https'): void {
   } else {
     console.log(chalk.white('    Bonjour:    ') + chalk.gray('Disabled'));
   }
-  console.log(chalk.white('    UPnP:       ') + chalk.gray('(Phase 3)'));
+  console.log(chalk.white('    UPnP:       ') + formatPortMapping(getPortMappingStatus()));
+}
+
+function formatPortMapping(status: PortMappingStatus): string {
+  switch (status.state) {
+    case 'mapped': {
+      const method = status.method === 'natpmp' ? 'NAT-PMP' : 'UPnP';
+      return chalk.green(`✓ ${status.externalIp || '?'}:${status.externalPort}`) + chalk.gray(` (${method} via ${status.gateway})`);
+    }
+    case 'discovering':
+      return chalk.gray('Mapping port on router...');
+    case 'failed':
+      return chalk.yellow(`⚠ ${status.error}`);
+    case 'stopped':
+      return chalk.gray('Stopped');
+    default:
+      return chalk.gray('Disabled');
+  }
 }
 
 function printProjectsStatus(config: Config): void {
@@ -182,64 +254,165 @@ program
     }
   });
 
+/**
+ * Start the server, Bonjour and the control socket in this process and shut
+ * them all down on SIGINT/SIGTERM or a `stop` over the socket.
+ */
+async function runListener(config: Config, mode: 'daemon' | 'foreground'): Promise<ServerInfo> {
+  const serverInfo = await startServer(config);
+
+  // Start Bonjour advertising for local network discovery
+  startBonjourAdvertising(config, serverInfo.protocol);
+
+  let stopping = false;
+  const shutdown = async () => {
+    if (stopping) {
+      return;
+    }
+    stopping = true;
+    stopBonjourAdvertising();
+    await stopServer();
+    await stopControlServer();
+    await closeLogger();
+    process.exit(0);
+  };
+
+  await startControlServer(serverInfo, mode, shutdown);
+
+  // Handle graceful shutdown
+  process.on('SIGINT', () => {
+    if (mode === 'foreground') {
+      console.log('');
+      console.log(chalk.gray('Shutting down...'));
+    }
+    shutdown();
+  });
+  process.on('SIGTERM', shutdown);
+
+  return serverInfo;
+}
+
+function formatUptime(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes} minutes`;
+}
+
+function formatLockout(lockout: IpLockout): string {
+  const remaining = Math.max(0, Math.ceil((new Date(lockout.locked_until).getTime() - Date.now()) / 1000));
+  const duration = remaining < 60 ? `${remaining}s` : formatUptime(remaining);
+  return `${lockout.ip} ` + chalk.gray(`(${lockout.failures} failed attempts, ${duration} left)`);
+}
+
+function formatListenerAddress(status: ListenerProcessStatus): string {
+  const host = status.address.includes(':') ? `[${status.address}]` : status.address;
+  return `${status.protocol}://${host}:${status.port}`;
+}
+
+async function startDaemon(): Promise<void> {
+  const status = await spawnDaemon();
+  console.log(chalk.green('✓ Listener started in background'));
+  console.log(chalk.white('  PID:      ') + status.pid);
+  console.log(chalk.white('  Address:  ') + formatListenerAddress(status));
+  console.log(chalk.white('  Logs:     ') + getLogsDir());
+  console.log(chalk.gray('  Stop with: thought-traveller stop'));
+}
+
 // Start command
 program
   .command('start')
   .description('Start the listener')
-  .option('-d, --daemon', 'Run in background (not implemented in MVP)')
+  .option('-d, --daemon', 'Run in background')
   .action(async (options) => {
+    const isDaemonChild = process.env[DAEMON_ENV] === '1';
+
     try {
       if (!configExists()) {
         console.error(chalk.red('Error:'), 'Configuration not found. Run "thought-traveller init" first.');
         process.exit(1);
       }
 
-      if (options.daemon) {
-        console.log(chalk.yellow('Daemon mode will be available in Phase 5'));
+      const config = loadConfig();
+
+      if (isDaemonChild) {
+        initLogger(true, config.logging, true);
+        await runListener(config, 'daemon');
+        getLogger().info(`Running as daemon (PID ${process.pid})`);
+        return;
+      }
+
+      const running = await getRunningListenerStatus();
+      if (running) {
+        console.error(chalk.red('Error:'), `Listener is already running (PID ${running.pid}, ${running.mode})`);
         process.exit(1);
       }
 
-      const config = loadConfig();
-      initLogger(false);
+      if (options.daemon) {
+        await startDaemon();
+        return;
+      }
 
-      printBanner();
+      initLogger(false, config.logging, true);
 
-      const serverInfo = await startServer(config);
+      printBanner();
 
-      // Start Bonjour advertising for local network discovery
-      startBonjourAdvertising(config, serverInfo.protocol);
+      const serverInfo = await runListener(config, 'foreground');
 
       printNetworkInfo(config, serverInfo.protocol);
       printProjectsStatus(config);
       printStartupComplete(config);
+    } catch (err) {
+      if (isDaemonChild) {
+        getLogger().error(`Daemon failed to start: ${(err as Error).message}`);
+      } else {
+        console.error(chalk.red('Error:'), (err as Error).message);
+      }
+      process.exit(1);
+    }
+  });
 
-      // Handle graceful shutdown
-      process.on('SIGINT', async () => {
-        console.log('');
-        console.log(chalk.gray('Shutting down...'));
-        stopBonjourAdvertising();
-        await stopServer();
-        process.exit(0);
-      });
-
-      process.on('SIGTERM', async () => {
-        stopBonjourAdvertising();
-        await stopServer();
-        process.exit(0);
-      });
+// Stop command
+program
+  .command('stop')
+  .description('Stop the running listener')
+  .action(async () => {
+    try {
+      const stopped = await stopDaemon();
+      if (stopped === null) {
+        console.log(chalk.yellow('Listener is not running'));
+        return;
+      }
+      if (stopped.stale) {
+        console.log(chalk.yellow(`Listener is not running; removed a stale PID file (PID ${stopped.pid} is another process)`));
+        return;
+      }
+      console.log(chalk.green('✓ Listener stopped') + chalk.gray(` (PID ${stopped.pid})`));
     } catch (err) {
       console.error(chalk.red('Error:'), (err as Error).message);
       process.exit(1);
     }
   });
 
-// Stop command (placeholder for daemon mode)
+// Restart command
 program
-  .command('stop')
-  .description('Stop the listener (daemon mode)')
-  .action(() => {
-    console.log(chalk.yellow('Daemon mode will be available in Phase 5'));
-    console.log(chalk.gray('For now, use Ctrl+C to stop the foreground listener.'));
+  .command('restart')
+  .description('Restart the listener in the background')
+  .action(async () => {
+    try {
+      if (!configExists()) {
+        console.error(chalk.red('Error:'), 'Configuration not found. Run "thought-traveller init" first.');
+        process.exit(1);
+      }
+
+      const stopped = await stopDaemon();
+      if (stopped && !stopped.stale) {
+        console.log(chalk.gray(`Stopped listener (PID ${stopped.pid})`));
+      }
+      await startDaemon();
+    } catch (err) {
+      console.error(chalk.red('Error:'), (err as Error).message);
+      process.exit(1);
+    }
   });
 
 // Status command
@@ -255,21 +428,39 @@ program
       }
 
       const config = loadConfig();
-
-      // Try to connect to the health endpoint
-      try {
-        const response = await fetch(`http://127.0.0.1:${config.listener.port}/health`);
-        if (response.ok) {
-          const data = await response.json() as { status: string; uptime: number };
-          const uptimeMin = Math.floor(data.uptime / 60);
-          console.log(chalk.green('● Running'));
-          console.log(chalk.white('  Port:    ') + config.listener.port);
-          console.log(chalk.white('  Uptime:  ') + `${uptimeMin} minutes`);
+      const status = await getRunningListenerStatus();
+
+      if (status) {
+        console.log(chalk.green('● Running') + chalk.gray(` (${status.mode})`));
+        console.log(chalk.white('  PID:     ') + status.pid);
+        console.log(chalk.white('  Address: ') + formatListenerAddress(status));
+        console.log(chalk.white('  Uptime:  ') + formatUptime(status.uptime));
+        console.log(chalk.white('  Devices: ') + (status.devices.length > 0
+          ? status.devices.map((device) => device.device_name).join(', ')
+          : chalk.gray('none connected')));
+        console.log(chalk.white('  UPnP:    ') + formatPortMapping(status.port_mapping));
+        if (status.lockouts.length > 0) {
+          console.log(chalk.white('  Locked:  ') + chalk.yellow(`${status.lockouts.length} IP(s)`) + chalk.gray(' (clear with: thought-traveller lockouts clear)'));
+          for (const lockout of status.lockouts) {
+            console.log('    ' + formatLockout(lockout));
+          }
         } else {
+          console.log(chalk.white('  Locked:  ') + chalk.gray('none'));
+        }
+      } else {
+        // No control socket: the listener may be running inside the tray app
+        try {
+          const { status: httpStatus, data } = await requestListener<HealthResponse>(config, 'GET', '/health');
+          if (httpStatus === 200) {
+            console.log(chalk.green('● Running') + chalk.gray(' (no control socket)'));
+            console.log(chalk.white('  Port:    ') + config.listener.port);
+            console.log(chalk.white('  Uptime:  ') + formatUptime(data.uptime));
+          } else {
+            console.log(chalk.red('● Not running'));
+          }
+        } catch {
           console.log(chalk.red('● Not running'));
         }
-      } catch {
-        console.log(chalk.red('● Not running'));
       }
 
       printProjectsStatus(config);
@@ -279,6 +470,130 @@ program
     }
   });
 
+// systemd user service (headless Linux)
+function formatUnitState(state: UnitState): string {
+  if (!state.installed) {
+    return chalk.gray('not installed');
+  }
+  const active = state.active === 'active' ? chalk.green(state.active) : chalk.yellow(state.active);
+  return `${active}${chalk.gray(`, ${state.enabled}`)}`;
+}
+
+async function waitForService(socketActivation: boolean): Promise<boolean> {
+  const deadline = Date.now() + 10000;
+  while (Date.now() < deadline) {
+    if (socketActivation ? getServiceStatus().socket.active === 'active' : await getRunningListenerStatus()) {
+      return true;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 250));
+  }
+  return false;
+}
+
+const serviceCmd = program
+  .command('service')
+  .description('Run the listener as a systemd user service (Linux)');
+
+serviceCmd
+  .command('install')
+  .description('Install, enable and start the systemd user service')
+  .option('--socket', 'Use socket activation: start the listener on the first connection')
+  .option('--no-linger', 'Do not enable lingering (service stops when you log out)')
+  .action(async (options) => {
+    try {
+      assertSystemdSupported();
+      if (!configExists()) {
+        console.log(chalk.yellow('Not configured. Run: thought-traveller init'));
+        process.exit(1);
+      }
+
+      const config = loadConfig();
+      const running = await getRunningListenerStatus();
+      if (running && getServiceStatus().service.active !== 'active') {
+        console.error(chalk.red('Error:'), `A listener is already running (PID ${running.pid}). Stop it first: thought-traveller stop`);
+        process.exit(1);
+      }
+
+      const socketActivation = !!options.socket;
+      installService(config, { socketActivation });
+
+      console.log(chalk.green('✓ systemd user service installed'));
+      console.log(chalk.gray(`  Unit:   ${getServiceUnitPath()}`));
+      if (socketActivation) {
+        console.log(chalk.gray(`  Socket: ${getSocketUnitPath()} (port ${config.listener.port})`));
+      }
+
+      if (options.linger) {
+        if (enableLinger()) {
+          console.log(chalk.gray('  Lingering enabled: the service keeps running after logout'));
+        } else {
+          console.log(chalk.yellow(`  ⚠ Could not enable lingering. Run: sudo loginctl enable-linger ${os.userInfo().username}`));
+        }
+      }
+
+      if (await waitForService(socketActivation)) {
+        console.log(chalk.green(socketActivation
+          ? `✓ Listening on port ${config.listener.port}; the listener starts on the first connection`
+          : '✓ Listener is running'));
+      } else {
+        console.log(chalk.yellow(`⚠ Service did not come up. Check: journalctl --user -u ${SERVICE_NAME}`));
+        process.exit(1);
+      }
+    } catch (err) {
+      console.error(chalk.red('Error:'), (err as Error).message);
+      process.exit(1);
+    }
+  });
+
+serviceCmd
+  .command('uninstall')
+  .description('Stop, disable and remove the systemd user service')
+  .action(() => {
+    try {
+      if (!uninstallService()) {
+        console.log(chalk.yellow('systemd user service is not installed'));
+        return;
+      }
+      console.log(chalk.green('✓ systemd user service removed'));
+      console.log(chalk.gray(`  Lingering is left as is. To turn it off: loginctl disable-linger ${os.userInfo().username}`));
+    } catch (err) {
+      console.error(chalk.red('Error:'), (err as Error).message);
+      process.exit(1);
+    }
+  });
+
+serviceCmd
+  .command('status')
+  .description('Show systemd unit, lingering and listener state')
+  .action(async () => {
+    try {
+      assertSystemdSupported();
+      const status = getServiceStatus();
+
+      console.log('');
+      console.log(chalk.cyan('systemd User Service'));
+      console.log(chalk.gray('─'.repeat(40)));
+      console.log(chalk.white('  Service:   ') + formatUnitState(status.service));
+      console.log(chalk.white('  Socket:    ') + formatUnitState(status.socket));
+      console.log(chalk.white('  Lingering: ') + (status.linger === null
+        ? chalk.gray('unknown')
+        : status.linger ? chalk.green('enabled') : chalk.yellow('disabled')));
+
+      const listener = await getRunningListenerStatus();
+      if (listener) {
+        console.log(chalk.white('  Listener:  ') + chalk.green(`running (PID ${listener.pid})`));
+      } else if (status.socket.active === 'active') {
+        console.log(chalk.white('  Listener:  ') + chalk.gray('waiting for first connection'));
+      } else {
+        console.log(chalk.white('  Listener:  ') + chalk.red('not running'));
+      }
+      console.log('');
+    } catch (err) {
+      console.error(chalk.red('Error:'), (err as Error).message);
+      process.exit(1);
+    }
+  });
+
 // Config commands
 const configCmd = program
   .command('config')
@@ -305,6 +620,7 @@ configCmd
       console.log(chalk.white('Export Settings:'));
       console.log(chalk.white('  Format:       ') + config.export.format);
       console.log(chalk.white('  Pattern:      ') + config.export.filename_pattern);
+      console.log(chalk.white('  Note Pattern: ') + (config.export.note_filename_pattern || DEFAULT_NOTE_PATTERN));
       console.log('');
       console.log(chalk.white('Monitoring Settings:'));
       console.log(chalk.white('  Timeout:      ') + (config.monitoring?.input_timeout_minutes || 30) + ' minutes');
@@ -314,6 +630,29 @@ configCmd
       } else {
         console.log(chalk.white('  APNs:         ') + chalk.gray('disabled'));
       }
+      console.log(chalk.white('  MCP (HTTP):   ') + (config.mcp?.http_enabled ? chalk.green('enabled at /mcp') : chalk.gray('disabled')));
+      console.log('');
+      const logging = resolveLoggingConfig(config.logging);
+      console.log(chalk.white('Logging:'));
+      console.log(chalk.white('  Level:        ') + logging.level);
+      console.log(chalk.white('  Rotation:     ') + (logging.max_size_mb > 0
+        ? `at ${logging.max_size_mb} MB, keep ${logging.max_files} file(s)${logging.compress ? ', gzipped' : ''}`
+        : chalk.gray('disabled')));
+      console.log(chalk.white('  Retention:    ') + (logging.retention_days > 0 ? `${logging.retention_days} days` : chalk.gray('unlimited')));
+      console.log(chalk.white('  Redaction:    ') + (logging.redaction === 'off' ? chalk.yellow('off') : logging.redaction));
+      console.log('');
+      const rateLimit = resolveRateLimitConfig(config.rate_limit);
+      console.log(chalk.white('Rate Limiting:'));
+      if (rateLimit.enabled) {
+        console.log(chalk.white('  Requests:     ') + (rateLimit.requests_per_minute > 0
+          ? `${rateLimit.requests_per_minute} per minute per IP`
+          : chalk.gray('unlimited')));
+        console.log(chalk.white('  Lockout:      ') + (rateLimit.max_failures > 0
+          ? `after ${rateLimit.max_failures} failed attempts, ${rateLimit.lockout_seconds}s doubling up to ${rateLimit.max_lockout_seconds}s`
+          : chalk.gray('disabled')));
+      } else {
+        console.log(chalk.white('  Status:       ') + chalk.yellow('disabled'));
+      }
       console.log('');
       console.log(chalk.white('Config Location:'));
       console.log(chalk.gray('  ' + path.join(getConfigDir(), 'config.json')));
@@ -326,7 +665,7 @@ configCmd
 configCmd
   .command('set <key> <value>')
   .description('Set a configuration value')
-  .action((key, value) => {
+  .action(async (key, value) => {
     try {
       if (!configExists()) {
         console.error(chalk.red('Error:'), 'Configuration not found. Run "thought-traveller init" first.');
@@ -342,6 +681,13 @@ configCmd
         case 'friendly_name':
           config.listener.friendly_name = value;
           break;
+        case 'allow_shared_token':
+          if (value !== 'true' && value !== 'false') {
+            console.error(chalk.red('Error:'), 'Invalid value (must be "true" or "false")');
+            process.exit(1);
+          }
+          config.listener.allow_shared_token = value === 'true';
+          break;
         case 'port':
           const port = parseInt(value, 10);
           if (isNaN(port) || port < 1 || port > 65535) {
@@ -362,14 +708,122 @@ configCmd
             config.monitoring.input_timeout_minutes = timeout;
           }
           break;
+        case 'format':
+          if (value !== 'markdown' && value !== 'json') {
+            console.error(chalk.red('Error:'), 'Invalid format (must be "markdown" or "json")');
+            process.exit(1);
+          }
+          config.export.format = value;
+          break;
+        case 'filename_pattern':
+        case 'note_filename_pattern':
+          const patternError = validateFilenamePattern(value);
+          if (patternError) {
+            console.error(chalk.red('Error:'), `Invalid pattern: ${patternError}`);
+            console.log(chalk.gray(`Available tokens: ${FILENAME_TOKENS.map((t) => `{${t}}`).join(' ')}`));
+            process.exit(1);
+          }
+          config.export[key as 'filename_pattern' | 'note_filename_pattern'] = value;
+          break;
+        case 'upnp_enabled':
+          if (value !== 'true' && value !== 'false') {
+            console.error(chalk.red('Error:'), 'Invalid value (must be "true" or "false")');
+            process.exit(1);
+          }
+          config.network.upnp_enabled = value === 'true';
+          break;
+        case 'upnp_ssdp_address':
+          if (value === 'default') {
+            delete config.network.upnp_ssdp_address;
+          } else {
+            config.network.upnp_ssdp_address = value;
+          }
+          break;
+        case 'mcp_http':
+          if (value !== 'true' && value !== 'false') {
+            console.error(chalk.red('Error:'), 'Invalid value (must be "true" or "false")');
+            process.exit(1);
+          }
+          config.mcp = { ...config.mcp, http_enabled: value === 'true' };
+          break;
+        case 'log_level':
+          if (!(LOG_LEVELS as string[]).includes(value)) {
+            console.error(chalk.red('Error:'), `Invalid level (must be one of: ${LOG_LEVELS.join(', ')})`);
+            process.exit(1);
+          }
+          config.logging = { ...config.logging, level: value as LogLevel };
+          break;
+        case 'log_max_size':
+        case 'log_max_files':
+        case 'log_retention_days': {
+          const amount = Number(value);
+          if (!Number.isFinite(amount) || amount < 0 || (key !== 'log_max_size' && !Number.isInteger(amount))) {
+            console.error(chalk.red('Error:'), `Invalid value (must be ${key === 'log_max_size' ? 'a size in MB' : 'a whole number'}, 0 to disable)`);
+            process.exit(1);
+          }
+          const field = key === 'log_max_size' ? 'max_size_mb' : key === 'log_max_files' ? 'max_files' : 'retention_days';
+          config.logging = { ...config.logging, [field]: amount };
+          break;
+        }
+        case 'log_redaction':
+          if (!(REDACTION_MODES as string[]).includes(value)) {
+            console.error(chalk.red('Error:'), `Invalid mode (must be one of: ${REDACTION_MODES.join(', ')})`);
+            process.exit(1);
+          }
+          config.logging = { ...config.logging, redaction: value as RedactionMode };
+          break;
+        case 'log_compress':
+          if (value !== 'true' && value !== 'false') {
+            console.error(chalk.red('Error:'), 'Invalid value (must be "true" or "false")');
+            process.exit(1);
+          }
+          config.logging = { ...config.logging, compress: value === 'true' };
+          break;
+        case 'rate_limit_enabled':
+          if (value !== 'true' && value !== 'false') {
+            console.error(chalk.red('Error:'), 'Invalid value (must be "true" or "false")');
+            process.exit(1);
+          }
+          config.rate_limit = { ...config.rate_limit, enabled: value === 'true' };
+          break;
+        case 'rate_limit_per_minute':
+        case 'rate_limit_max_failures':
+        case 'rate_limit_lockout_seconds':
+        case 'rate_limit_max_lockout_seconds': {
+          const amount = Number(value);
+          if (!Number.isInteger(amount) || amount < 0) {
+            console.error(chalk.red('Error:'), 'Invalid value (must be a whole number, 0 to disable)');
+            process.exit(1);
+          }
+          const field = key === 'rate_limit_per_minute' ? 'requests_per_minute'
+            : key === 'rate_limit_max_failures' ? 'max_failures'
+            : key === 'rate_limit_lockout_seconds' ? 'lockout_seconds'
+            : 'max_lockout_seconds';
+          config.rate_limit = { ...config.rate_limit, [field]: amount };
+          break;
+        }
         default:
           console.error(chalk.red('Error:'), `Unknown configuration key: ${key}`);
-          console.log(chalk.gray('Valid keys: auth_token, friendly_name, port, input_timeout'));
+          console.log(chalk.gray('Valid keys: auth_token, allow_shared_token, friendly_name, port, input_timeout, format, filename_pattern, note_filename_pattern, upnp_enabled, upnp_ssdp_address, mcp_http, log_level, log_max_size, log_max_files, log_retention_days, log_compress, log_redaction, rate_limit_enabled, rate_limit_per_minute, rate_limit_max_failures, rate_limit_lockout_seconds, rate_limit_max_lockout_seconds'));
           process.exit(1);
       }
 
       saveConfig(config);
       console.log(chalk.green('✓') + ` Set ${key}`);
+
+      if (key === 'allow_shared_token' && (await getRunningListenerStatus())) {
+        console.log(chalk.gray('  Restart the listener to apply: thought-traveller restart'));
+      }
+
+      // Logging and rate limit settings apply to a running listener without a restart
+      if (key.startsWith('log_') || key.startsWith('rate_limit_')) {
+        const response = await sendControlCommand(key.startsWith('log_') ? 'reload-logging' : 'reload-rate-limit');
+        if (response?.ok) {
+          console.log(chalk.gray('  Applied to the running listener'));
+        } else if (response) {
+          console.log(chalk.yellow(`  ⚠ Running listener could not reload: ${response.error}`));
+        }
+      }
     } catch (err) {
       console.error(chalk.red('Error:'), (err as Error).message);
       process.exit(1);
@@ -418,6 +872,12 @@ projectCmd
         } else if (project.briefFile) {
           console.log(chalk.yellow(`    Brief: configured but file missing`));
         }
+        if (project.filename_pattern) {
+          console.log(chalk.gray(`    Pattern: ${project.filename_pattern}`));
+        }
+        if (project.note_filename_pattern) {
+          console.log(chalk.gray(`    Note Pattern: ${project.note_filename_pattern}`));
+        }
         if (!validation.valid) {
           console.log(chalk.red(`    Error: ${validation.error}`));
         }
@@ -732,6 +1192,70 @@ projectCmd
     }
   });
 
+projectCmd
+  .command('set-pattern <tag>')
+  .description('Override the export filename patterns for a project')
+  .option('-c, --conversation <pattern>', 'Filename pattern for conversations')
+  .option('-n, --note <pattern>', 'Filename pattern for notes and todos')
+  .option('--clear', 'Remove overrides and use the export defaults')
+  .action((tag, options) => {
+    try {
+      if (!configExists()) {
+        console.error(chalk.red('Error:'), 'Configuration not found. Run "thought-traveller init" first.');
+        process.exit(1);
+      }
+
+      const config = loadConfig();
+      const project = config.projects.find((p) => p.tag === tag);
+
+      if (!project) {
+        console.error(chalk.red('Error:'), `Project "${tag}" not found`);
+        process.exit(1);
+      }
+
+      if (options.clear) {
+        delete project.filename_pattern;
+        delete project.note_filename_pattern;
+        saveConfig(config);
+        console.log(chalk.green('✓') + ` Cleared filename patterns for "${tag}"`);
+        return;
+      }
+
+      if (!options.conversation && !options.note) {
+        console.error(chalk.red('Error:'), 'Provide --conversation and/or --note, or --clear');
+        process.exit(1);
+      }
+
+      for (const pattern of [options.conversation, options.note]) {
+        const patternError = pattern ? validateFilenamePattern(pattern) : null;
+        if (patternError) {
+          console.error(chalk.red('Error:'), `Invalid pattern "${pattern}": ${patternError}`);
+          console.log(chalk.gray(`Available tokens: ${FILENAME_TOKENS.map((t) => `{${t}}`).join(' ')}`));
+          process.exit(1);
+        }
+      }
+
+      if (options.conversation) {
+        project.filename_pattern = options.conversation;
+      }
+      if (options.note) {
+        project.note_filename_pattern = options.note;
+      }
+
+      saveConfig(config);
+      console.log(chalk.green('✓') + ` Set filename patterns for "${tag}"`);
+      if (project.filename_pattern) {
+        console.log(chalk.gray(`  Conversations: ${project.filename_pattern}`));
+      }
+      if (project.note_filename_pattern) {
+        console.log(chalk.gray(`  Notes:         ${project.note_filename_pattern}`));
+      }
+    } catch (err) {
+      console.error(chalk.red('Error:'), (err as Error).message);
+      process.exit(1);
+    }
+  });
+
 projectCmd
   .command('scan')
   .description('Scan a directory for projects and add them interactively')
@@ -1543,6 +2067,537 @@ monitorCmd
     }
   });
 
+// Claude Code hooks
+function readStdin(): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    process.stdin.setEncoding('utf-8');
+    process.stdin.on('data', (chunk) => (data += chunk));
+    process.stdin.on('end', () => resolve(data));
+    process.stdin.on('error', reject);
+  });
+}
+
+// Command Claude Code runs for each hook, pointing back at this CLI
+function getHookBaseCommand(): string {
+  const script = process.argv[1] || '';
+  if (script.endsWith('.js')) {
+    return `"${process.execPath}" "${path.resolve(script)}"`;
+  }
+  return 'thought-traveller';
+}
+
+const hooksCmd = program
+  .command('hooks')
+  .description('Wire Claude Code hook events to your phone');
+
+hooksCmd
+  .command('install')
+  .description('Add Notification, Stop and (optionally) PreToolUse hooks to Claude Code settings')
+  .option('-s, --scope <scope>', 'Settings to update: project, local or user', 'project')
+  .option('-d, --dir <path>', 'Project directory for project/local scope', process.cwd())
+  .option('--ask-on-stop', 'When Claude stops, ask the phone for follow-up instructions')
+  .option('--permissions [matcher]', `Also send tool permission prompts to the phone (default tools: ${DEFAULT_PERMISSION_MATCHER})`)
+  .option('--command <command>', 'Command used to invoke the CLI (default: detected)')
+  .action((options) => {
+    try {
+      if (!['project', 'local', 'user'].includes(options.scope)) {
+        console.error(chalk.red('Error:'), 'Scope must be one of: project, local, user');
+        process.exit(1);
+      }
+      if (!configExists()) {
+        console.log(chalk.yellow('Not configured. Run: thought-traveller init'));
+        process.exit(1);
+      }
+
+      const config = loadConfig();
+      const settingsPath = getSettingsPath(options.scope as HookScope, options.dir);
+      const base = options.command || getHookBaseCommand();
+
+      // Allow Claude Code to wait as long as the listener does, plus a margin
+      const timeoutMinutes = config.monitoring?.input_timeout_minutes || 30;
+      const timeoutSeconds = timeoutMinutes * 60 + HOOK_TIMEOUT_MARGIN_SECONDS;
+
+      const entries: HookInstallEntry[] = [
+        { event: 'Notification', command: `${base} hook Notification` },
+        { event: 'Stop', command: `${base} hook Stop${options.askOnStop ? ' --ask' : ''}` },
+      ];
+      if (options.permissions) {
+        entries.push({
+          event: 'PreToolUse',
+          command: `${base} hook PreToolUse`,
+          matcher: typeof options.permissions === 'string' ? options.permissions : DEFAULT_PERMISSION_MATCHER,
+        });
+      }
+
+      installHooks(settingsPath, entries, timeoutSeconds);
+
+      console.log(chalk.green('✓ Claude Code hooks installed'));
+      console.log(chalk.gray(`  Settings: ${settingsPath}`));
+      console.log(chalk.gray(`  Events:   ${entries.map((entry) => entry.event).join(', ')}`));
+      if (options.askOnStop) {
+        console.log(chalk.gray('  Stop events will wait for follow-up instructions from the phone'));
+      }
+      if (options.permissions) {
+        console.log(chalk.gray(`  Permission prompts for ${entries[2].matcher} go to the phone`));
+      }
+    } catch (err) {
+      console.error(chalk.red('Error:'), (err as Error).message);
+      process.exit(1);
+    }
+  });
+
+hooksCmd
+  .command('uninstall')
+  .description('Remove Thought Traveller hooks from Claude Code settings')
+  .option('-s, --scope <scope>', 'Settings to update: project, local or user', 'project')
+  .option('-d, --dir <path>', 'Project directory for project/local scope', process.cwd())
+  .action((options) => {
+    try {
+      const settingsPath = getSettingsPath(options.scope as HookScope, options.dir);
+      const removed = uninstallHooks(settingsPath);
+
+      if (removed === 0) {
+        console.log(chalk.yellow(`No Thought Traveller hooks found in ${settingsPath}`));
+        return;
+      }
+      console.log(chalk.green(`✓ Removed ${removed} hook(s) from ${settingsPath}`));
+    } catch (err) {
+      console.error(chalk.red('Error:'), (err as Error).message);
+      process.exit(1);
+    }
+  });
+
+hooksCmd
+  .command('status')
+  .description('Show which settings files have hooks installed')
+  .option('-d, --dir <path>', 'Project directory', process.cwd())
+  .action((options) => {
+    try {
+      console.log('');
+      console.log(chalk.cyan('Claude Code Hooks'));
+      console.log(chalk.gray('─'.repeat(40)));
+
+      for (const scope of ['project', 'local', 'user'] as HookScope[]) {
+        const settingsPath = getSettingsPath(scope, options.dir);
+        const events = getInstalledHooks(settingsPath);
+        const label = scope.padEnd(8);
+        if (events.length > 0) {
+          console.log(chalk.white(`  ${label}`) + chalk.green(events.join(', ')) + chalk.gray(`  ${settingsPath}`));
+        } else {
+          console.log(chalk.white(`  ${label}`) + chalk.gray('not installed'));
+        }
+      }
+      console.log('');
+    } catch (err) {
+      console.error(chalk.red('Error:'), (err as Error).message);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('hook <event>')
+  .description('Handle a Claude Code hook event (reads hook JSON from stdin)')
+  .option('-p, --project <tag>', 'Project tag (default: matched from the session cwd)')
+  .option('--ask', 'On Stop, ask the phone for follow-up instructions')
+  .option('-t, --timeout <seconds>', 'How long to wait for a reply from the phone')
+  .action(async (event, options) => {
+    // Claude Code treats exit code 2 as blocking, so errors always exit 1
+    if (!(HOOK_EVENTS as readonly string[]).includes(event)) {
+      console.error(`Thought Traveller: unsupported hook event "${event}" (expected one of: ${HOOK_EVENTS.join(', ')})`);
+      process.exit(1);
+    }
+    if (!configExists()) {
+      console.error('Thought Traveller: not configured. Run: thought-traveller init');
+      process.exit(1);
+    }
+
+    let input: HookInput;
+    try {
+      const raw = await readStdin();
+      input = raw.trim() ? JSON.parse(raw) : {};
+    } catch {
+      console.error('Thought Traveller: hook input is not valid JSON');
+      process.exit(1);
+    }
+
+    const result = await runHook(event as HookEvent, input, loadConfig(), {
+      projectTag: options.project,
+      ask: options.ask,
+      timeoutSeconds: options.timeout ? parseInt(options.timeout, 10) : undefined,
+    });
+
+    if (result.stdout) {
+      console.log(result.stdout);
+    }
+    if (result.stderr) {
+      console.error(result.stderr);
+    }
+    process.exit(result.exitCode);
+  });
+
+// Tool permission allowlist
+// Paired devices
+const devicesCmd = program
+  .command('devices')
+  .description('Manage paired devices and their auth tokens');
+
+devicesCmd
+  .command('list')
+  .description('List paired devices')
+  .option('-a, --all', 'Include revoked devices')
+  .action((options) => {
+    try {
+      const devices = listDevices(!!options.all);
+      if (devices.length === 0) {
+        console.log(chalk.gray('No paired devices'));
+        console.log(chalk.gray('Add one with: thought-traveller devices add <name>'));
+        return;
+      }
+
+      console.log(chalk.white('Paired Devices:'));
+      console.log('');
+      for (const device of devices) {
+        const status = device.revoked_at
+          ? chalk.red(`revoked ${new Date(device.revoked_at).toLocaleString()}`)
+          : chalk.gray(device.last_seen_at ? `last seen ${new Date(device.last_seen_at).toLocaleString()}` : 'never connected');
+        console.log(`  ${chalk.yellow(device.id)}  ${chalk.white(device.name)}`);
+        console.log(chalk.gray(`    added ${new Date(device.created_at).toLocaleString()} · `) + status);
+      }
+      console.log('');
+    } catch (err) {
+      console.error(chalk.red('Error:'), (err as Error).message);
+      process.exit(1);
+    }
+  });
+
+devicesCmd
+  .command('add <name>')
+  .description('Register a device and print its auth token (shown once)')
+  .action((name) => {
+    try {
+      const { device, token } = addDevice(name);
+      console.log(chalk.green('✓') + ` Added device ${chalk.white(device.name)} ` + chalk.gray(`(${device.id})`));
+      console.log('');
+      console.log(chalk.white('  Auth token: ') + chalk.yellow(token));
+      console.log('');
+      console.log(chalk.gray('  Enter this token in the iOS app. It is not stored and cannot be shown again.'));
+    } catch (err) {
+      console.error(chalk.red('Error:'), (err as Error).message);
+      process.exit(1);
+    }
+  });
+
+devicesCmd
+  .command('rename <device> <name>')
+  .description('Rename a device (by id or current name)')
+  .action((idOrName, name) => {
+    try {
+      const device = renameDevice(idOrName, name);
+      console.log(chalk.green('✓') + ` Renamed ${device.id} to ${chalk.white(device.name)}`);
+    } catch (err) {
+      console.error(chalk.red('Error:'), (err as Error).message);
+      process.exit(1);
+    }
+  });
+
+devicesCmd
+  .command('revoke <device>')
+  .description('Revoke a device token (by id or name) and disconnect it')
+  .action(async (idOrName) => {
+    try {
+      const device = revokeDevice(idOrName);
+      console.log(chalk.green('✓') + ` Revoked ${chalk.white(device.name)} ` + chalk.gray(`(${device.id})`));
+
+      // Its token stops working immediately; also drop a live monitoring connection
+      const response = await sendControlCommand('disconnect-device', { device_id: device.id });
+      if (response?.ok) {
+        console.log(chalk.gray('  Disconnected from the running listener'));
+      }
+    } catch (err) {
+      console.error(chalk.red('Error:'), (err as Error).message);
+      process.exit(1);
+    }
+  });
+
+// Brute-force lockouts
+const lockoutsCmd = program
+  .command('lockouts')
+  .description('Show or clear IPs locked out after failed auth attempts');
+
+lockoutsCmd
+  .command('list')
+  .description('List locked-out IPs')
+  .action(async () => {
+    try {
+      const status = await getRunningListenerStatus();
+      if (!status) {
+        console.error(chalk.red('Error:'), 'Listener is not running. Lockouts are only kept while it runs.');
+        process.exit(1);
+      }
+      if (status.lockouts.length === 0) {
+        console.log(chalk.gray('No locked-out IPs'));
+        return;
+      }
+      for (const lockout of status.lockouts) {
+        console.log('  ' + formatLockout(lockout));
+      }
+    } catch (err) {
+      console.error(chalk.red('Error:'), (err as Error).message);
+      process.exit(1);
+    }
+  });
+
+lockoutsCmd
+  .command('clear [ip]')
+  .description('Lift the lockout for one IP, or for all')
+  .action(async (ip) => {
+    try {
+      const response = await sendControlCommand('clear-lockouts', ip ? { ip } : {});
+      if (!response?.ok) {
+        console.error(chalk.red('Error:'), response?.error || 'Listener is not running. Lockouts are only kept while it runs.');
+        process.exit(1);
+      }
+      console.log(chalk.green('✓') + ` Cleared ${response.cleared} lockout(s)` + (ip ? ` for ${ip}` : ''));
+    } catch (err) {
+      console.error(chalk.red('Error:'), (err as Error).message);
+      process.exit(1);
+    }
+  });
+
+// Conversation and note indexes
+function printIndexReport(report: IndexReport): void {
+  const kindColors: Record<IndexIssueKind, (text: string) => string> = {
+    orphan: chalk.yellow,
+    dangling: chalk.red,
+    duplicate: chalk.magenta,
+    stale: chalk.yellow,
+    unidentified: chalk.gray,
+  };
+  for (const issue of report.issues) {
+    const label = kindColors[issue.kind](issue.kind.padEnd(12));
+    const subject = issue.id ? `${issue.index.slice(0, -1)} ${issue.id}` : issue.file;
+    const file = issue.id && issue.file ? chalk.gray(` ${issue.file}`) : '';
+    console.log(`  ${label} ${subject}${file}`);
+    console.log(chalk.gray(`               ${issue.details}`));
+  }
+  if (report.issues.length > 0) {
+    console.log();
+  }
+  console.log(
+    `  Scanned ${report.files_scanned} file(s): ${report.conversations} conversation(s), ${report.notes} note(s) on disk`
+  );
+}
+
+const indexCmd = program
+  .command('index')
+  .description('Check or rebuild the conversation and note indexes from the exported files');
+
+indexCmd
+  .command('verify')
+  .description('Report orphaned, duplicate, dangling and stale index entries')
+  .option('--fix', 'Update the indexes to match the files on disk')
+  .action((options) => {
+    try {
+      if (!configExists()) {
+        console.error(chalk.red('Error:'), 'Configuration not found. Run "thought-traveller init" first.');
+        process.exit(1);
+      }
+      const report = verifyIndexes(loadConfig(), !!options.fix);
+      printIndexReport(report);
+      const fixable = report.issues.filter((issue) => FIXABLE_ISSUE_KINDS.has(issue.kind)).length;
+      if (fixable === 0) {
+        console.log(chalk.green('✓') + ' Indexes match the files on disk');
+      } else if (report.fixed) {
+        console.log(chalk.green('✓') + ` Fixed ${fixable} index issue(s)`);
+      } else {
+        console.log(chalk.yellow(`  ${fixable} index issue(s) found. Run with --fix to update the indexes.`));
+        process.exit(1);
+      }
+    } catch (err) {
+      console.error(chalk.red('Error:'), (err as Error).message);
+      process.exit(1);
+    }
+  });
+
+indexCmd
+  .command('rebuild')
+  .description('Replace the indexes with the conversations and notes found in project directories')
+  .action(() => {
+    try {
+      if (!configExists()) {
+        console.error(chalk.red('Error:'), 'Configuration not found. Run "thought-traveller init" first.');
+        process.exit(1);
+      }
+      const report = rebuildIndexes(loadConfig());
+      printIndexReport(report);
+      console.log(chalk.green('✓') + ' Rebuilt the conversation and note indexes');
+    } catch (err) {
+      console.error(chalk.red('Error:'), (err as Error).message);
+      process.exit(1);
+    }
+  });
+
+// QR-code pairing
+program
+  .command('pair')
+  .description('Show a QR code that pairs a new phone with the running listener')
+  .option('--url <url>', 'Listener URL to encode (default: this machine\'s local address)')
+  .action(async (options) => {
+    try {
+      if (!configExists()) {
+        console.error(chalk.red('Error:'), 'Configuration not found. Run "thought-traveller init" first.');
+        process.exit(1);
+      }
+
+      // The code has to live in the listener that will redeem it
+      const config = loadConfig();
+      const status = await getRunningListenerStatus();
+      const created = status ? await sendControlCommand('create-pairing-code') : null;
+      if (!status || !created?.ok || !created.pairing) {
+        console.error(chalk.red('Error:'), 'Listener is not running. Start it with: thought-traveller start');
+        console.error(chalk.gray('  (When using the tray app, choose "Pair New Device…" from its menu instead.)'));
+        process.exit(1);
+      }
+
+      const pairing = created.pairing;
+      const url = options.url || `${status.protocol}://${getLocalIP()}:${status.port}`;
+      const fingerprint = status.protocol === 'https' ? getCertificateFingerprint() : null;
+      const uri = buildPairingUri(config, url, pairing, fingerprint);
+
+      console.log('');
+      for (const line of renderQrCodeText(encodeQrCode(uri))) {
+        console.log('  ' + chalk.black.bgWhite(line));
+      }
+      console.log('');
+      console.log(chalk.white('  Scan with the Thought Traveller app, or enter manually:'));
+      console.log(chalk.white('    URL:         ') + url);
+      console.log(chalk.white('    Code:        ') + chalk.yellow(pairing.code));
+      if (fingerprint) {
+        console.log(chalk.white('    Fingerprint: ') + chalk.gray(fingerprint));
+      }
+      console.log('');
+      console.log(chalk.gray(`  The code works once and expires at ${new Date(pairing.expires_at).toLocaleTimeString()}.`));
+      console.log(chalk.gray('  Waiting for a device to pair (Ctrl+C to stop waiting)...'));
+
+      for (;;) {
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+        const response = await sendControlCommand('pairing-status', { code: pairing.code });
+        const pairingStatus = response?.pairing_status;
+        if (!pairingStatus) {
+          console.log(chalk.yellow('  Listener stopped before a device paired'));
+          process.exit(1);
+        }
+        if (pairingStatus.state === 'paired') {
+          console.log(chalk.green('✓') + ` Paired ${chalk.white(pairingStatus.device_name)} ` + chalk.gray(`(${pairingStatus.device_id})`));
+          return;
+        }
+        if (pairingStatus.state === 'expired') {
+          console.log(chalk.yellow('  Pairing code expired. Run "thought-traveller pair" again.'));
+          process.exit(1);
+        }
+      }
+    } catch (err) {
+      console.error(chalk.red('Error:'), (err as Error).message);
+      process.exit(1);
+    }
+  });
+
+const permissionsCmd = program
+  .command('permissions')
+  .description('Manage the per-project allowlist for tool permission requests');
+
+permissionsCmd
+  .command('list')
+  .description('List allowlist rules')
+  .option('-p, --project <tag>', 'Only show rules for this project')
+  .action((options) => {
+    try {
+      const permissions = loadPermissions();
+      const tags = Object.keys(permissions).filter((tag) => !options.project || tag === options.project);
+
+      if (tags.length === 0) {
+        console.log(chalk.gray('No allowlist rules'));
+        console.log(chalk.gray('Rules are added when you choose "Always allow" on the phone, or with: thought-traveller permissions add'));
+        return;
+      }
+
+      console.log(chalk.white('Permission Allowlist:'));
+      console.log('');
+      for (const tag of tags) {
+        console.log(`  ${chalk.white(tag)}`);
+        for (const rule of permissions[tag]) {
+          const target = rule.specifier !== undefined ? chalk.cyan(rule.specifier) : chalk.gray('(any)');
+          console.log(`    ${rule.tool.padEnd(12)} ${target}` + chalk.gray(`  added ${new Date(rule.created_at).toLocaleString()}${rule.added_by ? ` by ${rule.added_by}` : ''}`));
+        }
+        console.log('');
+      }
+    } catch (err) {
+      console.error(chalk.red('Error:'), (err as Error).message);
+      process.exit(1);
+    }
+  });
+
+permissionsCmd
+  .command('add <tag> <tool> [specifier]')
+  .description('Always allow a tool for a project (specifier: command, file or URL; trailing * matches a prefix)')
+  .action((tag, tool, specifier) => {
+    try {
+      const config = loadConfig();
+      if (!config.projects.some((p) => p.tag === tag)) {
+        console.error(chalk.red('Error:'), `Project "${tag}" not found`);
+        process.exit(1);
+      }
+
+      addPermissionRule(tag, tool, specifier, 'cli');
+      console.log(chalk.green('✓') + ` Always allowing ${tool}${specifier ? ` (${specifier})` : ''} for ${tag}`);
+    } catch (err) {
+      console.error(chalk.red('Error:'), (err as Error).message);
+      process.exit(1);
+    }
+  });
+
+permissionsCmd
+  .command('remove <tag> <tool> [specifier]')
+  .description('Remove allowlist rules for a tool (all of them, or only the given specifier)')
+  .action((tag, tool, specifier) => {
+    try {
+      const removed = removePermissionRules(tag, tool, specifier);
+      if (removed === 0) {
+        console.log(chalk.yellow(`No matching rules for ${tool} in ${tag}`));
+        return;
+      }
+      console.log(chalk.green('✓') + ` Removed ${removed} rule(s)`);
+    } catch (err) {
+      console.error(chalk.red('Error:'), (err as Error).message);
+      process.exit(1);
+    }
+  });
+
+// MCP server
+program
+  .command('mcp')
+  .description('Run an MCP server on stdio so Claude Code can reach your phone as a tool')
+  .option('-p, --project <tag>', 'Default project tag (default: matched from the working directory)')
+  .action(async (options) => {
+    // stdout carries the protocol, so diagnostics go to stderr only
+    if (!configExists()) {
+      console.error('Thought Traveller: not configured. Run: thought-traveller init');
+      process.exit(1);
+    }
+
+    const config = loadConfig();
+    const projectTag = options.project || resolveProjectTag(config, process.cwd());
+    if (projectTag && !config.projects.some((p) => p.tag === projectTag)) {
+      console.error(`Thought Traveller: unknown project tag: ${projectTag}`);
+      process.exit(1);
+    }
+
+    const server = new McpServer(config, createListenerBackend(config), VERSION, projectTag);
+    await serveStdio(server);
+    process.exit(0);
+  });
+
 // APNs commands
 const apnsCmd = program
   .command('apns')
@@ -1707,41 +2762,62 @@ apnsCmd
   });
 
 // Logs command
+function printLogLine(line: LogLine, json: boolean): void {
+  if (json || !line.entry) {
+    console.log(line.raw);
+    return;
+  }
+  const entry = line.entry;
+  const timestamp = entry.timestamp ? new Date(entry.timestamp).toLocaleString() : '';
+  const level = entry.level.toUpperCase().padEnd(5);
+  const levelColor = entry.level === 'error' ? chalk.red : entry.level === 'warn' ? chalk.yellow : chalk.blue;
+  console.log(chalk.gray(timestamp) + ' ' + levelColor(level) + ' ' + entry.message);
+}
+
 program
   .command('logs')
   .description('View logs')
   .option('-t, --tail <lines>', 'Number of lines to show', '50')
-  .option('-f, --follow', 'Follow log output (not implemented in MVP)')
+  .option('-f, --follow', 'Keep printing new entries as they are written')
+  .option('-l, --level <level>', `Only this level and more severe (${LOG_LEVELS.slice(0, 3).join(', ')}, ...)`)
+  .option('-g, --grep <pattern>', 'Only messages matching this pattern (case-insensitive regex)')
+  .option('--since <time>', 'Only entries after this time (e.g. 15m, 2h, 1d, 2024-05-01T09:30)')
+  .option('--until <time>', 'Only entries before this time')
+  .option('-p, --project <tag>', 'Only entries for this project')
+  .option('--json', 'Print raw JSON entries')
   .action((options) => {
     try {
       const logsDir = getLogsDir();
       const logFile = path.join(logsDir, 'combined.log');
 
-      if (!fs.existsSync(logFile)) {
+      if (options.level && !(LOG_LEVELS as readonly string[]).includes(options.level)) {
+        console.error(chalk.red('Error:'), `Level must be one of: ${LOG_LEVELS.join(', ')}`);
+        process.exit(1);
+      }
+
+      const filter: LogFilter = {
+        level: options.level as LogLevel | undefined,
+        grep: options.grep ? parseGrepPattern(options.grep) : undefined,
+        since: options.since ? parseTimeSpec(options.since) : undefined,
+        until: options.until ? parseTimeSpec(options.until) : undefined,
+        project: options.project,
+      };
+
+      if (fs.existsSync(logFile)) {
+        for (const line of readLastLogLines(logFile, parseInt(options.tail, 10), filter)) {
+          printLogLine(line, !!options.json);
+        }
+      } else if (!options.follow) {
         console.log(chalk.gray('No logs yet'));
         return;
       }
 
       if (options.follow) {
-        console.log(chalk.yellow('Follow mode will be available in Phase 5'));
-        console.log(chalk.gray('Showing last', options.tail, 'lines:'));
-        console.log('');
-      }
-
-      const content = fs.readFileSync(logFile, 'utf-8');
-      const lines = content.trim().split('\n');
-      const tailLines = lines.slice(-parseInt(options.tail, 10));
-
-      for (const line of tailLines) {
-        try {
-          const entry = JSON.parse(line);
-          const timestamp = new Date(entry.timestamp).toLocaleString();
-          const level = entry.level.toUpperCase().padEnd(5);
-          const levelColor = entry.level === 'error' ? chalk.red : entry.level === 'warn' ? chalk.yellow : chalk.blue;
-          console.log(chalk.gray(timestamp) + ' ' + levelColor(level) + ' ' + entry.message);
-        } catch {
-          console.log(line);
-        }
+        const stop = followLog(logFile, filter, (line) => printLogLine(line, !!options.json));
+        process.on('SIGINT', () => {
+          stop();
+          process.exit(0);
+        });
       }
     } catch (err) {
       console.error(chalk.red('Error:'), (err as Error).message);
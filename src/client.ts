@@ -0,0 +1,58 @@
+import * as http from 'http';
+import * as https from 'https';
+import { Config } from './types';
+
+export interface ListenerResponse<T> {
+  status: number;
+  data: T;
+}
+
+/**
+ * Call the locally running listener's HTTP API with the configured auth token.
+ * Self-signed certificates are accepted since the listener is on this machine.
+ */
+export function requestListener<T>(
+  config: Config,
+  method: string,
+  requestPath: string,
+  body?: unknown
+): Promise<ListenerResponse<T>> {
+  const protocol = config.network.tls.enabled ? 'https' : 'http';
+  const client = protocol === 'https' ? https : http;
+  const requestBody = body === undefined ? undefined : JSON.stringify(body);
+
+  return new Promise((resolve, reject) => {
+    const options = {
+      hostname: '127.0.0.1',
+      port: config.listener.port,
+      path: requestPath,
+      method,
+      headers: {
+        Authorization: `Bearer ${config.listener.auth_token}`,
+        ...(requestBody !== undefined && {
+          'Content-Type': 'application/json',
+          'Content-Length': Buffer.byteLength(requestBody),
+        }),
+      },
+      ...(protocol === 'https' && { rejectUnauthorized: false }),
+    };
+
+    const req = client.request(options, (res) => {
+      let data = '';
+      res.on('data', (chunk) => (data += chunk));
+      res.on('end', () => {
+        try {
+          resolve({ status: res.statusCode || 0, data: (data ? JSON.parse(data) : {}) as T });
+        } catch {
+          reject(new Error(`Invalid response from listener (HTTP ${res.statusCode})`));
+        }
+      });
+    });
+
+    req.on('error', reject);
+    if (requestBody !== undefined) {
+      req.write(requestBody);
+    }
+    req.end();
+  });
+}
@@ -2,7 +2,18 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import * as crypto from 'crypto';
-import { Config, ConversationIndex, NotesIndex } from './types';
+import {
+  Config,
+  ConversationIndex,
+  ConversationIndexEntry,
+  NotesIndex,
+  NoteIndexEntry,
+  InputRequestRecord,
+  PermissionsFile,
+  DevicesFile,
+} from './types';
+import { resolveInsideDirectory } from './safe-path';
+import { JournalStore, StoreOptions } from './store';
 
 const DEFAULT_PORT = 41420;
 
@@ -29,6 +40,7 @@ function getConfigPath(): string {
   return path.join(getConfigDir(), 'config.json');
 }
 
+// Whole-file JSON indexes used before the journaled store; imported on first use
 function getConversationsIndexPath(): string {
   return path.join(getConfigDir(), 'conversations.json');
 }
@@ -37,6 +49,41 @@ function getNotesIndexPath(): string {
   return path.join(getConfigDir(), 'notes.json');
 }
 
+function getPendingRequestsPath(): string {
+  return path.join(getConfigDir(), 'pending-requests.json');
+}
+
+function getPermissionsPath(): string {
+  return path.join(getConfigDir(), 'permissions.json');
+}
+
+function getDevicesPath(): string {
+  return path.join(getConfigDir(), 'devices.json');
+}
+
+// QR code image written by the tray's "Pair New Device…"; removed when the code expires
+function getPairingImagePath(): string {
+  return path.join(getConfigDir(), 'pairing-qr.png');
+}
+
+function getPidPath(): string {
+  return path.join(getConfigDir(), 'listener.pid');
+}
+
+// Secret that control socket clients must send; the named pipe on Windows has no ACL of its own
+function getControlKeyPath(): string {
+  return path.join(getConfigDir(), 'listener.key');
+}
+
+// Unix socket in the config dir; Windows has no socket files, so a named pipe per config dir
+function getControlSocketPath(): string {
+  if (process.platform === 'win32') {
+    const hash = crypto.createHash('sha256').update(getConfigDir()).digest('hex').slice(0, 12);
+    return `\\\\.\\pipe\\thought-traveller-${hash}`;
+  }
+  return path.join(getConfigDir(), 'listener.sock');
+}
+
 function getLogsDir(): string {
   return path.join(getConfigDir(), 'logs');
 }
@@ -66,6 +113,7 @@ function getDefaultConfig(): Config {
     export: {
       format: 'markdown',
       filename_pattern: '{date}-{time}-{conversation_id_short}.md',
+      note_filename_pattern: 'note-{date}-{time}-{note_id_short}.md',
       create_directories: true,
     },
     network: {
@@ -164,34 +212,96 @@ export function initConfig(overwrite: boolean = false): Config {
   return config;
 }
 
+// One store per config directory, so tests and tools that switch HOME get their own
+const stores = new Map<string, JournalStore<unknown>>();
+
+function getStore<T>(name: string, options: Omit<StoreOptions<T>, 'dir' | 'name'>): JournalStore<T> {
+  const dir = getConfigDir();
+  const key = `${dir}\0${name}`;
+  let store = stores.get(key) as JournalStore<T> | undefined;
+  if (!store) {
+    store = new JournalStore<T>({ dir, name, ...options });
+    stores.set(key, store as JournalStore<unknown>);
+  }
+  return store;
+}
+
+// Saved conversations by ID, newest activity first in queries
+export function getConversationsStore(): JournalStore<ConversationIndexEntry> {
+  return getStore<ConversationIndexEntry>('conversations', {
+    legacyPath: getConversationsIndexPath(),
+    projectOf: (entry) => entry.project_tag,
+    dateOf: (entry) => entry.last_updated,
+  });
+}
+
+// Saved notes by ID, newest first in queries
+export function getNotesStore(): JournalStore<NoteIndexEntry> {
+  return getStore<NoteIndexEntry>('notes', {
+    legacyPath: getNotesIndexPath(),
+    projectOf: (entry) => entry.project_tag,
+    dateOf: (entry) => entry.created_at,
+  });
+}
+
+// Read-only copies of the indexes for code that wants a plain object
 export function loadConversationsIndex(): ConversationIndex {
-  const indexPath = getConversationsIndexPath();
-  if (!fs.existsSync(indexPath)) {
-    return {};
+  return getConversationsStore().toObject();
+}
+
+export function loadNotesIndex(): NotesIndex {
+  return getNotesStore().toObject();
+}
+
+export function loadInputRequests(): InputRequestRecord[] {
+  const storePath = getPendingRequestsPath();
+  if (!fs.existsSync(storePath)) {
+    return [];
   }
-  const content = fs.readFileSync(indexPath, 'utf-8');
-  return JSON.parse(content) as ConversationIndex;
+  const content = fs.readFileSync(storePath, 'utf-8');
+  return JSON.parse(content) as InputRequestRecord[];
 }
 
-export function saveConversationsIndex(index: ConversationIndex): void {
+export function saveInputRequests(records: InputRequestRecord[]): void {
   ensureConfigDir();
-  const indexPath = getConversationsIndexPath();
-  fs.writeFileSync(indexPath, JSON.stringify(index, null, 2), 'utf-8');
+  const storePath = getPendingRequestsPath();
+  // Write to a temp file and rename so a crash never leaves a half-written store
+  const tempPath = `${storePath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(records, null, 2), 'utf-8');
+  fs.renameSync(tempPath, storePath);
 }
 
-export function loadNotesIndex(): NotesIndex {
-  const indexPath = getNotesIndexPath();
-  if (!fs.existsSync(indexPath)) {
+export function loadPermissions(): PermissionsFile {
+  const permissionsPath = getPermissionsPath();
+  if (!fs.existsSync(permissionsPath)) {
     return {};
   }
-  const content = fs.readFileSync(indexPath, 'utf-8');
-  return JSON.parse(content) as NotesIndex;
+  const content = fs.readFileSync(permissionsPath, 'utf-8');
+  return JSON.parse(content) as PermissionsFile;
 }
 
-export function saveNotesIndex(index: NotesIndex): void {
+export function savePermissions(permissions: PermissionsFile): void {
   ensureConfigDir();
-  const indexPath = getNotesIndexPath();
-  fs.writeFileSync(indexPath, JSON.stringify(index, null, 2), 'utf-8');
+  const permissionsPath = getPermissionsPath();
+  fs.writeFileSync(permissionsPath, JSON.stringify(permissions, null, 2), 'utf-8');
+}
+
+export function loadDevices(): DevicesFile {
+  const devicesPath = getDevicesPath();
+  if (!fs.existsSync(devicesPath)) {
+    return { devices: [] };
+  }
+  const content = fs.readFileSync(devicesPath, 'utf-8');
+  return JSON.parse(content) as DevicesFile;
+}
+
+export function saveDevices(devices: DevicesFile): void {
+  ensureConfigDir();
+  const devicesPath = getDevicesPath();
+  // Holds credentials, so write atomically and keep it private to the user
+  const tempPath = `${devicesPath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(devices, null, 2), { encoding: 'utf-8', mode: 0o600 });
+  fs.renameSync(tempPath, devicesPath);
 }
 
 export function validateProjectPath(projectPath: string): { valid: boolean; error?: string } {
@@ -226,6 +336,14 @@ export function resolvePath(inputPath: string): string {
   return path.resolve(inputPath.replace(/^~/, os.homedir()));
 }
 
+/**
+ * Absolute path for a file inside a project. Throws PathValidationError when
+ * the relative path is unsafe or would land outside the project directory.
+ */
+export function resolveProjectFilePath(project: { path: string }, relativePath: string): string {
+  return resolveInsideDirectory(resolvePath(project.path), relativePath);
+}
+
 export function ensureCertsDir(): void {
   const certsDir = getCertsDir();
   if (!fs.existsSync(certsDir)) {
@@ -370,4 +488,15 @@ Output ONLY the markdown content for PROJECT_BRIEF.md, ready to save directly to
   fs.writeFileSync(promptPath, defaultPrompt, 'utf-8');
 }
 
-export { getConfigDir, getLogsDir, getCertsDir, getBriefGeneratorPromptPath };
+export {
+  getConfigDir,
+  getLogsDir,
+  getCertsDir,
+  getBriefGeneratorPromptPath,
+  getPermissionsPath,
+  getDevicesPath,
+  getPairingImagePath,
+  getPidPath,
+  getControlKeyPath,
+  getControlSocketPath,
+};
@@ -0,0 +1,86 @@
+import * as crypto from 'crypto';
+import { ContinuationReconciliation, Message } from './types';
+
+// Matching a continuation against the history already saved. The phone says
+// how many messages the listener has (previous_message_count), but that count
+// can be stale or wrong, so saved messages are compared by hash instead.
+
+// Hashes are only compared position by position, so a short prefix is plenty
+const MESSAGE_HASH_LENGTH = 12;
+
+// Markdown exports don't keep trailing whitespace or line-ending style
+export function hashMessage(message: Pick<Message, 'role' | 'content'>): string {
+  const content = message.content.replace(/\r\n/g, '\n').replace(/\s+$/, '');
+  return crypto.createHash('sha256').update(`${message.role}\n${content}`).digest('hex').slice(0, MESSAGE_HASH_LENGTH);
+}
+
+export function hashMessages(messages: Array<Pick<Message, 'role' | 'content'>>): string[] {
+  return messages.map(hashMessage);
+}
+
+export interface ContinuationPlan {
+  // Payload messages from this index on are written to the file
+  startIndex: number;
+  // True when those messages replace saved ones rather than follow them
+  revision: boolean;
+  // Hashes of the saved history once the plan is applied
+  messageHashes: string[];
+  reconciliation: ContinuationReconciliation;
+}
+
+/**
+ * Work out what a continuation adds to the saved history. Messages are
+ * compared until the first that differs:
+ *
+ * - all saved messages match: append whatever the payload has past them,
+ *   whatever previous_message_count says
+ * - the payload stops early but matches as far as it goes: nothing to write
+ * - a saved message differs: the phone's history was edited, so everything
+ *   from that message on is written again as a revision
+ */
+export function planContinuation(storedHashes: string[], messages: Message[], previousMessageCount: number): ContinuationPlan {
+  const incomingHashes = hashMessages(messages);
+  const comparable = Math.min(storedHashes.length, incomingHashes.length);
+  let divergence = 0;
+  while (divergence < comparable && storedHashes[divergence] === incomingHashes[divergence]) {
+    divergence++;
+  }
+
+  const stored = storedHashes.length;
+  const base = { previous_message_count: previousMessageCount, stored_message_count: stored, divergence_index: divergence };
+
+  if (divergence === stored) {
+    return {
+      startIndex: stored,
+      revision: false,
+      messageHashes: incomingHashes,
+      reconciliation: {
+        ...base,
+        status: previousMessageCount === stored ? 'in_sync' : 'count_mismatch',
+        messages_added: messages.length - stored,
+        messages_revised: 0,
+      },
+    };
+  }
+
+  if (divergence === messages.length) {
+    return {
+      startIndex: messages.length,
+      revision: false,
+      messageHashes: storedHashes,
+      reconciliation: { ...base, status: 'count_mismatch', messages_added: 0, messages_revised: 0 },
+    };
+  }
+
+  return {
+    startIndex: divergence,
+    revision: true,
+    messageHashes: incomingHashes,
+    reconciliation: {
+      ...base,
+      status: 'revised',
+      messages_added: messages.length - divergence,
+      messages_revised: stored - divergence,
+    },
+  };
+}
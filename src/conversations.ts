@@ -0,0 +1,142 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  ConversationIndexEntry,
+  ConversationMessageView,
+  ConversationSummary,
+  ConversationSearchResult,
+  ExportConfig,
+} from './types';
+import { readArchive } from './archive';
+import { JournalStore } from './store';
+import { parseConversationMarkdown } from './markdown';
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+const SNIPPET_RADIUS = 60;
+const MAX_MATCHES_PER_CONVERSATION = 5;
+
+export interface ConversationFilters {
+  project?: string;
+  since?: Date;
+  until?: Date;
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+}
+
+export interface ParsedConversationFile {
+  format: ExportConfig['format'];
+  messages: ConversationMessageView[];
+}
+
+function toSummary(conversationId: string, entry: ConversationIndexEntry): ConversationSummary {
+  return {
+    conversation_id: conversationId,
+    project_tag: entry.project_tag,
+    file: path.basename(entry.file_path),
+    created_at: entry.created_at,
+    last_updated: entry.last_updated,
+    message_count: entry.message_count,
+  };
+}
+
+// Most recently updated first; the store keeps entries indexed by project and date
+function filterAndSort(store: JournalStore<ConversationIndexEntry>, filters: ConversationFilters): ConversationSummary[] {
+  return store.query(filters).map(([id, entry]) => toSummary(id, entry));
+}
+
+export function listConversations(
+  store: JournalStore<ConversationIndexEntry>,
+  filters: ConversationFilters,
+  limit: number,
+  offset: number
+): Page<ConversationSummary> {
+  const all = filterAndSort(store, filters);
+  return {
+    items: all.slice(offset, offset + limit),
+    total: all.length,
+  };
+}
+
+export function readConversationFile(filePath: string): ParsedConversationFile {
+  if (filePath.endsWith('.json')) {
+    const archive = readArchive(filePath);
+    return {
+      format: 'json',
+      messages: archive.messages.map((message) => ({
+        role: message.role,
+        content: message.content,
+        timestamp: message.timestamp,
+      })),
+    };
+  }
+
+  const content = fs.readFileSync(filePath, 'utf-8');
+  return {
+    format: 'markdown',
+    messages: parseConversationMarkdown(content),
+  };
+}
+
+function buildSnippet(content: string, matchIndex: number, queryLength: number): string {
+  const start = Math.max(0, matchIndex - SNIPPET_RADIUS);
+  const end = Math.min(content.length, matchIndex + queryLength + SNIPPET_RADIUS);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < content.length ? '…' : '';
+  return prefix + content.slice(start, end).replace(/\s+/g, ' ').trim() + suffix;
+}
+
+/**
+ * Case-insensitive full-text search over the saved export files.
+ * Conversations whose files are missing or unreadable are skipped.
+ */
+export function searchConversations(
+  store: JournalStore<ConversationIndexEntry>,
+  query: string,
+  filters: ConversationFilters,
+  limit: number,
+  offset: number
+): Page<ConversationSearchResult> {
+  const needle = query.toLowerCase();
+  const results: ConversationSearchResult[] = [];
+
+  for (const [id, entry] of store.query(filters)) {
+    const summary = toSummary(id, entry);
+    const filePath = entry.file_path;
+    if (!fs.existsSync(filePath)) {
+      continue;
+    }
+
+    let parsed: ParsedConversationFile;
+    try {
+      parsed = readConversationFile(filePath);
+    } catch {
+      continue;
+    }
+
+    const matches = [];
+    for (let i = 0; i < parsed.messages.length && matches.length < MAX_MATCHES_PER_CONVERSATION; i++) {
+      const message = parsed.messages[i];
+      const matchIndex = message.content.toLowerCase().indexOf(needle);
+      if (matchIndex !== -1) {
+        matches.push({
+          message_index: i,
+          role: message.role,
+          snippet: buildSnippet(message.content, matchIndex, query.length),
+        });
+      }
+    }
+
+    if (matches.length > 0) {
+      results.push({ ...summary, matches });
+    }
+  }
+
+  return {
+    items: results.slice(offset, offset + limit),
+    total: results.length,
+  };
+}
@@ -0,0 +1,382 @@
+import * as net from 'net';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { execFileSync, spawn } from 'child_process';
+import { AddressInfo } from 'net';
+import { getPidPath, getControlKeyPath, getControlSocketPath, getLogsDir, ensureConfigDir, loadConfig } from './config';
+import { getLogger, applyLoggingConfig } from './logger';
+import { monitoringManager } from './monitoring';
+import { getPortMappingStatus } from './upnp';
+import { ServerInfo } from './server';
+import { ListenerProcessStatus, PairingCode, PairingCodeStatus } from './types';
+import { createPairingCode, getPairingCodeStatus } from './pairing';
+import { applyRateLimitConfig, clearLockouts, getLockouts } from './rate-limit';
+import { constantTimeCompare } from './auth';
+
+// Set in the environment of the detached child so `start` knows to run as the daemon
+export const DAEMON_ENV = 'THOUGHT_TRAVELLER_DAEMON';
+
+const DAEMON_START_TIMEOUT_MS = 10000;
+const DAEMON_STOP_TIMEOUT_MS = 10000;
+const CONTROL_TIMEOUT_MS = 2000;
+const POLL_INTERVAL_MS = 200;
+
+type ControlCommand =
+  | 'status'
+  | 'stop'
+  | 'reload-logging'
+  | 'reload-rate-limit'
+  | 'disconnect-device'
+  | 'create-pairing-code'
+  | 'pairing-status'
+  | 'clear-lockouts';
+
+interface ControlRequest {
+  command: ControlCommand;
+  key?: string;         // Contents of listener.key
+  device_id?: string;   // disconnect-device
+  code?: string;        // pairing-status
+  ip?: string;          // clear-lockouts; all IPs when omitted
+}
+
+interface ControlResponse {
+  ok: boolean;
+  status?: ListenerProcessStatus;
+  pairing?: PairingCode;
+  pairing_status?: PairingCodeStatus;
+  cleared?: number;
+  error?: string;
+}
+
+export interface StopDaemonResult {
+  pid: number;
+  // The PID file named a process that isn't the listener, so only the file was removed
+  stale: boolean;
+}
+
+let controlServer: net.Server | null = null;
+let controlKey: string | null = null;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function readPidFile(): number | null {
+  try {
+    const pid = parseInt(fs.readFileSync(getPidPath(), 'utf-8').trim(), 10);
+    return Number.isInteger(pid) && pid > 0 ? pid : null;
+  } catch {
+    return null;
+  }
+}
+
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM means the process exists but belongs to someone else
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+function readControlKey(): string {
+  try {
+    return fs.readFileSync(getControlKeyPath(), 'utf-8').trim();
+  } catch {
+    return '';
+  }
+}
+
+// Command line of another process, on platforms where it can be read cheaply
+function readProcessArgs(pid: number): string[] | null {
+  try {
+    if (process.platform === 'linux') {
+      return fs.readFileSync(`/proc/${pid}/cmdline`, 'utf-8').split('\0').filter(Boolean);
+    }
+    if (process.platform === 'darwin') {
+      return execFileSync('ps', ['-o', 'command=', '-p', String(pid)], { encoding: 'utf-8' }).trim().split(/\s+/);
+    }
+  } catch {
+    // Gone, or not ours to inspect
+  }
+  return null;
+}
+
+// The listener always runs as this CLI's `start`, in the foreground, as the daemon or under systemd
+function isListenerProcess(pid: number): boolean {
+  const args = readProcessArgs(pid);
+  return (
+    args !== null &&
+    args.includes('start') &&
+    args.some((arg) => ['cli.js', 'cli.ts', 'thought-traveller', 'tt'].includes(path.basename(arg)))
+  );
+}
+
+function removeFile(filePath: string): void {
+  try {
+    fs.unlinkSync(filePath);
+  } catch {
+    // Already gone
+  }
+}
+
+/**
+ * Send one command to a running listener's control socket. Resolves with null
+ * when nothing is listening, so callers can treat that as "not running".
+ */
+export function sendControlCommand(
+  command: ControlCommand,
+  args: Omit<ControlRequest, 'command'> = {}
+): Promise<ControlResponse | null> {
+  return new Promise((resolve) => {
+    const socket = net.connect(getControlSocketPath());
+    let buffer = '';
+    let settled = false;
+
+    const finish = (response: ControlResponse | null) => {
+      if (!settled) {
+        settled = true;
+        socket.destroy();
+        resolve(response);
+      }
+    };
+
+    socket.setTimeout(CONTROL_TIMEOUT_MS, () => finish(null));
+    socket.on('error', () => finish(null));
+    socket.on('connect', () => {
+      const request: ControlRequest = { command, ...args, key: readControlKey() };
+      socket.write(JSON.stringify(request) + '\n');
+    });
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString();
+      const newline = buffer.indexOf('\n');
+      if (newline >= 0) {
+        try {
+          finish(JSON.parse(buffer.slice(0, newline)) as ControlResponse);
+        } catch {
+          finish({ ok: false, error: 'Invalid response on control socket' });
+        }
+      }
+    });
+    socket.on('close', () => finish(null));
+  });
+}
+
+export async function getRunningListenerStatus(): Promise<ListenerProcessStatus | null> {
+  const response = await sendControlCommand('status');
+  return response?.ok && response.status ? response.status : null;
+}
+
+function buildStatus(serverInfo: ServerInfo, mode: ListenerProcessStatus['mode'], startedAt: Date): ListenerProcessStatus {
+  const address = serverInfo.server.address() as AddressInfo;
+  return {
+    pid: process.pid,
+    mode,
+    protocol: serverInfo.protocol,
+    address: address.address,
+    port: address.port,
+    started_at: startedAt.toISOString(),
+    uptime: Math.floor((Date.now() - startedAt.getTime()) / 1000),
+    devices: monitoringManager.getActiveSessions().map((session) => ({
+      device_id: session.deviceId,
+      device_name: session.deviceName,
+      connected_since: new Date(session.startTime).toISOString(),
+      last_seen: new Date(session.lastSeen).toISOString(),
+    })),
+    port_mapping: getPortMappingStatus(),
+    lockouts: getLockouts(),
+  };
+}
+
+/**
+ * Write the PID file and listen on the control socket. `stop` replies first,
+ * then calls onStop, which is expected to shut the process down.
+ */
+export function startControlServer(
+  serverInfo: ServerInfo,
+  mode: ListenerProcessStatus['mode'],
+  onStop: () => Promise<void>
+): Promise<void> {
+  const logger = getLogger();
+  const socketPath = getControlSocketPath();
+  const startedAt = new Date();
+
+  ensureConfigDir();
+  // Callers check that no listener answers before starting, so a leftover socket file is stale
+  if (process.platform !== 'win32') {
+    removeFile(socketPath);
+  }
+
+  // Only readable by this user (the config dir on Windows is already private), so
+  // other local users can't drive the socket even where it can't be locked down
+  controlKey = crypto.randomBytes(32).toString('hex');
+  fs.writeFileSync(getControlKeyPath(), controlKey, { encoding: 'utf-8', mode: 0o600 });
+
+  controlServer = net.createServer((socket) => {
+    let buffer = '';
+    socket.on('error', () => socket.destroy());
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString();
+      const newline = buffer.indexOf('\n');
+      if (newline < 0) {
+        return;
+      }
+
+      let request: ControlRequest;
+      try {
+        request = JSON.parse(buffer.slice(0, newline)) as ControlRequest;
+      } catch {
+        socket.end(JSON.stringify({ ok: false, error: 'Invalid JSON' }) + '\n');
+        return;
+      }
+
+      if (typeof request.key !== 'string' || !constantTimeCompare(request.key, controlKey!)) {
+        socket.end(JSON.stringify({ ok: false, error: 'Invalid control key' }) + '\n');
+        return;
+      }
+
+      switch (request.command) {
+        case 'status':
+          socket.end(JSON.stringify({ ok: true, status: buildStatus(serverInfo, mode, startedAt) }) + '\n');
+          break;
+        case 'reload-logging':
+          try {
+            const logging = applyLoggingConfig(loadConfig().logging);
+            logger.info(`Logging settings reloaded (level: ${logging.level})`);
+            socket.end(JSON.stringify({ ok: true }) + '\n');
+          } catch (err) {
+            socket.end(JSON.stringify({ ok: false, error: (err as Error).message }) + '\n');
+          }
+          break;
+        case 'reload-rate-limit':
+          applyRateLimitConfig(loadConfig().rate_limit);
+          logger.info('Rate limit settings reloaded');
+          socket.end(JSON.stringify({ ok: true }) + '\n');
+          break;
+        case 'clear-lockouts': {
+          const cleared = clearLockouts(request.ip);
+          logger.info(`Cleared ${cleared} lockout(s)${request.ip ? ` for ${request.ip}` : ''}`);
+          socket.end(JSON.stringify({ ok: true, cleared }) + '\n');
+          break;
+        }
+        case 'disconnect-device':
+          monitoringManager.disconnectDevice(String(request.device_id));
+          socket.end(JSON.stringify({ ok: true }) + '\n');
+          break;
+        case 'create-pairing-code': {
+          const pairing = createPairingCode();
+          logger.info(`Pairing code created (expires ${pairing.expires_at})`);
+          socket.end(JSON.stringify({ ok: true, pairing }) + '\n');
+          break;
+        }
+        case 'pairing-status':
+          socket.end(JSON.stringify({ ok: true, pairing_status: getPairingCodeStatus(String(request.code)) }) + '\n');
+          break;
+        case 'stop':
+          logger.info('Stop requested over control socket');
+          socket.end(JSON.stringify({ ok: true }) + '\n', () => {
+            onStop().catch((err) => logger.error(`Shutdown failed: ${(err as Error).message}`));
+          });
+          break;
+        default:
+          socket.end(JSON.stringify({ ok: false, error: `Unknown command: ${request.command}` }) + '\n');
+      }
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    controlServer!.once('error', reject);
+    controlServer!.listen(socketPath, () => {
+      if (process.platform !== 'win32') {
+        // The socket can stop the listener without a token, so keep it private
+        fs.chmodSync(socketPath, 0o600);
+      }
+      fs.writeFileSync(getPidPath(), String(process.pid), 'utf-8');
+      resolve();
+    });
+  });
+}
+
+export function stopControlServer(): Promise<void> {
+  return new Promise((resolve) => {
+    removeFile(getPidPath());
+    removeFile(getControlKeyPath());
+    if (!controlServer) {
+      resolve();
+      return;
+    }
+    controlServer.close(() => resolve());
+    controlServer = null;
+  });
+}
+
+/**
+ * Re-run this CLI's `start` detached from the terminal and wait until the
+ * child answers on the control socket.
+ */
+export async function spawnDaemon(): Promise<ListenerProcessStatus> {
+  const child = spawn(process.execPath, [...process.execArgv, process.argv[1], 'start'], {
+    detached: true,
+    stdio: 'ignore',
+    windowsHide: true,
+    env: { ...process.env, [DAEMON_ENV]: '1' },
+  });
+
+  let exitCode: number | null = null;
+  child.on('exit', (code) => {
+    exitCode = code ?? 1;
+  });
+  child.unref();
+
+  const deadline = Date.now() + DAEMON_START_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    if (exitCode !== null) {
+      throw new Error(`Listener exited during startup (code ${exitCode}). See ${getLogsDir()}/error.log`);
+    }
+    const status = await getRunningListenerStatus();
+    if (status) {
+      return status;
+    }
+    await sleep(POLL_INTERVAL_MS);
+  }
+
+  throw new Error(`Listener did not start within ${DAEMON_START_TIMEOUT_MS / 1000}s. See ${getLogsDir()}/error.log`);
+}
+
+/**
+ * Ask the running listener to shut down and wait for its process to exit.
+ * Falls back to SIGTERM when the PID file names a live process that does not
+ * answer on the socket, but only once its command line shows it is the
+ * listener: after a crash the PID may belong to something else by now.
+ * Returns null if nothing was running.
+ */
+export async function stopDaemon(): Promise<StopDaemonResult | null> {
+  const status = await getRunningListenerStatus();
+  const pid = status?.pid ?? readPidFile();
+
+  if (pid === null || !isProcessAlive(pid)) {
+    removeFile(getPidPath());
+    return null;
+  }
+
+  if (status) {
+    await sendControlCommand('stop');
+  } else if (isListenerProcess(pid)) {
+    process.kill(pid, 'SIGTERM');
+  } else {
+    removeFile(getPidPath());
+    return { pid, stale: true };
+  }
+
+  const deadline = Date.now() + DAEMON_STOP_TIMEOUT_MS;
+  while (isProcessAlive(pid)) {
+    if (Date.now() >= deadline) {
+      throw new Error(`Listener (PID ${pid}) did not stop within ${DAEMON_STOP_TIMEOUT_MS / 1000}s`);
+    }
+    await sleep(POLL_INTERVAL_MS);
+  }
+
+  return { pid, stale: false };
+}
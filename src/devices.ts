@@ -0,0 +1,113 @@
+import * as crypto from 'crypto';
+import { DeviceRecord, DevicesFile } from './types';
+import { loadDevices, saveDevices } from './config';
+
+// last_seen_at is a hint for `tt devices list`, so don't rewrite the file on every request
+const LAST_SEEN_WRITE_INTERVAL_MS = 5 * 60 * 1000;
+
+export function generateDeviceToken(): string {
+  return 'ttd_' + crypto.randomBytes(32).toString('base64url');
+}
+
+export function hashDeviceToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function generateDeviceId(): string {
+  return 'dev_' + crypto.randomBytes(4).toString('hex');
+}
+
+function isActive(device: DeviceRecord): boolean {
+  return !device.revoked_at;
+}
+
+// Look up an active device by id, or by name when no id matches
+function findDevice(file: DevicesFile, idOrName: string): DeviceRecord {
+  const device = file.devices.find((d) => isActive(d) && d.id === idOrName) ||
+    file.devices.find((d) => isActive(d) && d.name === idOrName);
+  if (!device) {
+    throw new Error(`No active device "${idOrName}". Run: thought-traveller devices list`);
+  }
+  return device;
+}
+
+function assertNameAvailable(file: DevicesFile, name: string, exceptId?: string): void {
+  if (!name.trim()) {
+    throw new Error('Device name cannot be empty');
+  }
+  if (file.devices.some((d) => isActive(d) && d.name === name && d.id !== exceptId)) {
+    throw new Error(`A device named "${name}" already exists`);
+  }
+}
+
+export function listDevices(includeRevoked = false): DeviceRecord[] {
+  return loadDevices().devices.filter((d) => includeRevoked || isActive(d));
+}
+
+/**
+ * Register a device and return its token. The token is not stored and
+ * can't be shown again; the phone keeps it.
+ */
+export function addDevice(name: string): { device: DeviceRecord; token: string } {
+  const file = loadDevices();
+  assertNameAvailable(file, name);
+
+  const token = generateDeviceToken();
+  const device: DeviceRecord = {
+    id: generateDeviceId(),
+    name,
+    token_hash: hashDeviceToken(token),
+    created_at: new Date().toISOString(),
+  };
+
+  file.devices.push(device);
+  saveDevices(file);
+  return { device, token };
+}
+
+export function renameDevice(idOrName: string, newName: string): DeviceRecord {
+  const file = loadDevices();
+  const device = findDevice(file, idOrName);
+  assertNameAvailable(file, newName, device.id);
+
+  device.name = newName;
+  saveDevices(file);
+  return device;
+}
+
+// Revoked devices are kept (with revoked_at) so the list shows what was removed and when
+export function revokeDevice(idOrName: string): DeviceRecord {
+  const file = loadDevices();
+  const device = findDevice(file, idOrName);
+
+  device.revoked_at = new Date().toISOString();
+  saveDevices(file);
+  return device;
+}
+
+export function findDeviceByToken(token: string): DeviceRecord | undefined {
+  const hash = Buffer.from(hashDeviceToken(token), 'hex');
+  return loadDevices().devices.find(
+    (d) => isActive(d) && crypto.timingSafeEqual(Buffer.from(d.token_hash, 'hex'), hash)
+  );
+}
+
+export function findActiveDeviceById(id: string): DeviceRecord | undefined {
+  return loadDevices().devices.find((d) => isActive(d) && d.id === id);
+}
+
+export function recordDeviceSeen(id: string): void {
+  const file = loadDevices();
+  const device = file.devices.find((d) => d.id === id);
+  if (!device) {
+    return;
+  }
+
+  const lastSeen = device.last_seen_at ? new Date(device.last_seen_at).getTime() : 0;
+  if (Date.now() - lastSeen < LAST_SEEN_WRITE_INTERVAL_MS) {
+    return;
+  }
+
+  device.last_seen_at = new Date().toISOString();
+  saveDevices(file);
+}
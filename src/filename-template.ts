@@ -0,0 +1,149 @@
+import { ConversationPayload, NotePayload } from './types';
+
+export const DEFAULT_CONVERSATION_PATTERN = '{date}-{time}-{conversation_id_short}.md';
+export const DEFAULT_NOTE_PATTERN = 'note-{date}-{time}-{note_id_short}.md';
+
+const MAX_SLUG_LENGTH = 50;
+
+export interface FilenameContext {
+  timestamp: string;
+  id: string;
+  type: 'conversation' | 'note' | 'todo';
+  projectTag: string;
+  title?: string;
+  device?: string;
+  firstUserMessage?: string;
+}
+
+function pad(value: number, length: number = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+export function slugify(text: string | undefined, fallback: string = 'untitled'): string {
+  const slug = (text || '')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/-+$/, '');
+  return slug || fallback;
+}
+
+// Token values must never introduce path separators of their own
+function cleanTokenValue(value: string): string {
+  return value.replace(/[\\/]+/g, '-');
+}
+
+function buildTokens(context: FilenameContext): Record<string, string> {
+  // Dates use UTC so filenames do not depend on the desktop's timezone
+  const date = new Date(context.timestamp);
+  const yyyy = String(date.getUTCFullYear());
+  const mm = pad(date.getUTCMonth() + 1);
+  const dd = pad(date.getUTCDate());
+  const hh = pad(date.getUTCHours());
+  const min = pad(date.getUTCMinutes());
+  const ss = pad(date.getUTCSeconds());
+  const idShort = context.id.slice(0, 8);
+  const titleSlug = slugify(context.title || context.firstUserMessage);
+
+  return {
+    date: `${yyyy}-${mm}-${dd}`,
+    time: `${hh}${min}${ss}`,
+    yyyy,
+    mm,
+    dd,
+    hh,
+    min,
+    ss,
+    id: context.id,
+    id_short: idShort,
+    conversation_id: context.id,
+    conversation_id_short: idShort,
+    note_id: context.id,
+    note_id_short: idShort,
+    project_tag: context.projectTag,
+    title_slug: titleSlug,
+    device: slugify(context.device, 'unknown-device'),
+    type: context.type,
+    first_user_message_slug: slugify(context.firstUserMessage),
+  };
+}
+
+const TOKEN_PATTERN = /\{([a-z_]+)\}/g;
+
+export const FILENAME_TOKENS = Object.keys(
+  buildTokens({ timestamp: new Date(0).toISOString(), id: '', type: 'conversation', projectTag: '' })
+);
+
+/**
+ * Check a pattern for unknown tokens and unusable path segments.
+ * Returns an error message, or null if the pattern is valid.
+ */
+export function validateFilenamePattern(pattern: string): string | null {
+  if (!pattern.trim()) {
+    return 'Pattern is empty';
+  }
+
+  const unknown = Array.from(pattern.matchAll(TOKEN_PATTERN))
+    .map((match) => match[1])
+    .filter((token) => !FILENAME_TOKENS.includes(token));
+  if (unknown.length > 0) {
+    return `Unknown token(s): ${unknown.map((token) => `{${token}}`).join(', ')}`;
+  }
+
+  if (pattern.startsWith('/') || pattern.endsWith('/')) {
+    return 'Pattern must be a relative path ending in a filename';
+  }
+
+  if (pattern.split('/').some((segment) => segment === '..' || segment === '.')) {
+    return 'Pattern must not contain "." or ".." segments';
+  }
+
+  return null;
+}
+
+/**
+ * Render a filename pattern into a relative path.
+ * "/" in the pattern separates subdirectories, e.g. "{yyyy}/{mm}/{date}-{title_slug}.md".
+ */
+export function renderFilenamePattern(pattern: string, context: FilenameContext): string {
+  const error = validateFilenamePattern(pattern);
+  if (error) {
+    throw new Error(`Invalid filename pattern "${pattern}": ${error}`);
+  }
+
+  const tokens = buildTokens(context);
+  const rendered = pattern.replace(TOKEN_PATTERN, (_match, token: string) => cleanTokenValue(tokens[token]));
+
+  return rendered
+    .split('/')
+    .map((segment) => segment.replace(/[<>:"\\|?*\x00-\x1f]/g, '-').trim())
+    .filter((segment) => segment && segment !== '.' && segment !== '..')
+    .join('/');
+}
+
+export function conversationFilenameContext(payload: ConversationPayload): FilenameContext {
+  const firstUserMessage = payload.conversation.messages.find((message) => message.role === 'user');
+  return {
+    timestamp: payload.timestamp,
+    id: payload.conversation_id,
+    type: 'conversation',
+    projectTag: payload.project_tag,
+    device: payload.metadata?.device,
+    firstUserMessage: firstUserMessage?.content,
+  };
+}
+
+export function noteFilenameContext(payload: NotePayload): FilenameContext {
+  return {
+    timestamp: payload.timestamp,
+    id: payload.note_id,
+    type: payload.type,
+    projectTag: payload.project_tag,
+    title: payload.title,
+    device: payload.metadata?.device,
+    firstUserMessage: payload.content,
+  };
+}
@@ -0,0 +1,397 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  Config,
+  InputRequestResponse,
+  InputRequestErrorResponse,
+  PermissionRequestResponse,
+  TaskCompleteResponse,
+} from './types';
+import { requestListener } from './client';
+import { resolvePath } from './config';
+
+// Claude Code hook events this listener handles
+export const HOOK_EVENTS = ['Notification', 'Stop', 'PreToolUse'] as const;
+export type HookEvent = typeof HOOK_EVENTS[number];
+
+// Tools sent to the phone for approval by default; read-only tools are left to Claude Code
+export const DEFAULT_PERMISSION_MATCHER = 'Bash|Edit|MultiEdit|Write|NotebookEdit|WebFetch';
+
+export type HookScope = 'user' | 'project' | 'local';
+
+interface ClaudeHookCommand {
+  type: 'command';
+  command: string;
+  timeout?: number; // seconds
+}
+
+interface ClaudeHookMatcher {
+  matcher?: string;
+  hooks: ClaudeHookCommand[];
+}
+
+interface ClaudeSettings {
+  hooks?: Record<string, ClaudeHookMatcher[]>;
+  [key: string]: unknown;
+}
+
+// JSON that Claude Code writes to the hook's stdin
+export interface HookInput {
+  session_id?: string;
+  transcript_path?: string;
+  cwd?: string;
+  hook_event_name?: string;
+  message?: string;
+  title?: string;
+  stop_hook_active?: boolean;
+  tool_name?: string;
+  tool_input?: Record<string, unknown>;
+}
+
+export interface HookInstallEntry {
+  event: HookEvent;
+  command: string;
+  matcher?: string; // Tool name pattern (PreToolUse only)
+}
+
+export interface HookResult {
+  exitCode: number;
+  stdout?: string;
+  stderr?: string;
+}
+
+export interface HookRunOptions {
+  projectTag?: string;
+  ask?: boolean;
+  timeoutSeconds?: number;
+}
+
+// Replies that mean "let Claude stop" when asked after a Stop event
+const STOP_REPLIES = /^(done|stop|no|ok|okay|thanks|nothing)?$/i;
+const SUMMARY_MAX_LENGTH = 200;
+
+// Extra seconds Claude Code waits on a hook beyond the listener's input timeout
+export const HOOK_TIMEOUT_MARGIN_SECONDS = 60;
+
+export function getSettingsPath(scope: HookScope, projectDir: string = process.cwd()): string {
+  switch (scope) {
+    case 'user':
+      return path.join(os.homedir(), '.claude', 'settings.json');
+    case 'local':
+      return path.join(resolvePath(projectDir), '.claude', 'settings.local.json');
+    default:
+      return path.join(resolvePath(projectDir), '.claude', 'settings.json');
+  }
+}
+
+function readSettings(settingsPath: string): ClaudeSettings {
+  if (!fs.existsSync(settingsPath)) {
+    return {};
+  }
+  const content = fs.readFileSync(settingsPath, 'utf-8');
+  return content.trim() ? (JSON.parse(content) as ClaudeSettings) : {};
+}
+
+function writeSettings(settingsPath: string, settings: ClaudeSettings): void {
+  fs.mkdirSync(path.dirname(settingsPath), { recursive: true });
+  fs.writeFileSync(settingsPath, JSON.stringify(settings, null, 2) + '\n', 'utf-8');
+}
+
+// Our entries are recognised by the "hook <Event>" subcommand of this CLI
+function isListenerHook(command: string, event: string): boolean {
+  return new RegExp(`(thought-traveller|\\btt|cli\\.js"?)\\s+hook\\s+${event}\\b`).test(command);
+}
+
+export function getInstalledHooks(settingsPath: string): HookEvent[] {
+  const settings = readSettings(settingsPath);
+  return HOOK_EVENTS.filter((event) =>
+    (settings.hooks?.[event] || []).some((matcher) =>
+      matcher.hooks.some((hook) => isListenerHook(hook.command, event))
+    )
+  );
+}
+
+/**
+ * Add hook entries, leaving any other hooks in the file untouched.
+ * Events that already have one of our entries are updated in place.
+ */
+export function installHooks(settingsPath: string, entries: HookInstallEntry[], timeoutSeconds: number): void {
+  const settings = readSettings(settingsPath);
+  settings.hooks = settings.hooks || {};
+
+  for (const { event, command, matcher } of entries) {
+    const matchers = (settings.hooks[event] || [])
+      .map((matcher) => ({
+        ...matcher,
+        hooks: matcher.hooks.filter((hook) => !isListenerHook(hook.command, event)),
+      }))
+      .filter((matcher) => matcher.hooks.length > 0);
+
+    matchers.push({
+      matcher: matcher || '',
+      hooks: [{ type: 'command', command, timeout: timeoutSeconds }],
+    });
+    settings.hooks[event] = matchers;
+  }
+
+  writeSettings(settingsPath, settings);
+}
+
+// Returns the number of hook entries removed
+export function uninstallHooks(settingsPath: string): number {
+  if (!fs.existsSync(settingsPath)) {
+    return 0;
+  }
+
+  const settings = readSettings(settingsPath);
+  let removed = 0;
+
+  for (const event of HOOK_EVENTS) {
+    const matchers = settings.hooks?.[event];
+    if (!matchers) {
+      continue;
+    }
+
+    const remaining = matchers
+      .map((matcher) => {
+        const hooks = matcher.hooks.filter((hook) => !isListenerHook(hook.command, event));
+        removed += matcher.hooks.length - hooks.length;
+        return { ...matcher, hooks };
+      })
+      .filter((matcher) => matcher.hooks.length > 0);
+
+    if (remaining.length > 0) {
+      settings.hooks![event] = remaining;
+    } else {
+      delete settings.hooks![event];
+    }
+  }
+
+  if (settings.hooks && Object.keys(settings.hooks).length === 0) {
+    delete settings.hooks;
+  }
+
+  writeSettings(settingsPath, settings);
+  return removed;
+}
+
+/**
+ * Find the configured project for a working directory. Project paths point at
+ * the export directory (often <repo>/traveller), so either may contain the other.
+ */
+export function resolveProjectTag(config: Config, cwd: string | undefined): string | undefined {
+  if (!cwd) {
+    return undefined;
+  }
+  const dir = resolvePath(cwd);
+
+  const candidates = config.projects
+    .map((project) => ({ tag: project.tag, projectPath: resolvePath(project.path) }))
+    .filter(({ projectPath }) =>
+      projectPath === dir ||
+      projectPath.startsWith(dir + path.sep) ||
+      dir.startsWith(projectPath + path.sep)
+    )
+    .sort((a, b) => b.projectPath.length - a.projectPath.length);
+
+  return candidates[0]?.tag;
+}
+
+// Last assistant text from the session transcript (JSONL), used as the task summary
+export function readTranscriptSummary(transcriptPath: string | undefined): string | undefined {
+  if (!transcriptPath || !fs.existsSync(transcriptPath)) {
+    return undefined;
+  }
+
+  const lines = fs.readFileSync(transcriptPath, 'utf-8').trim().split('\n');
+  for (let i = lines.length - 1; i >= 0; i--) {
+    try {
+      const entry = JSON.parse(lines[i]) as {
+        type?: string;
+        message?: { content?: string | Array<{ type: string; text?: string }> };
+      };
+      if (entry.type !== 'assistant' || !entry.message?.content) {
+        continue;
+      }
+      const content = entry.message.content;
+      const text = typeof content === 'string'
+        ? content
+        : content.filter((part) => part.type === 'text' && part.text).map((part) => part.text).join('\n');
+      if (text.trim()) {
+        const summary = text.trim().replace(/\s+/g, ' ');
+        return summary.length > SUMMARY_MAX_LENGTH ? summary.slice(0, SUMMARY_MAX_LENGTH - 1) + '…' : summary;
+      }
+    } catch {
+      // Skip lines that are not JSON
+    }
+  }
+  return undefined;
+}
+
+async function askPhone(
+  config: Config,
+  projectTag: string | undefined,
+  prompt: string,
+  inputType: 'yesno' | 'text',
+  timeoutSeconds?: number
+): Promise<{ answered: true; response: string } | { answered: false; error: string; status: number }> {
+  const { status, data } = await requestListener<InputRequestResponse | InputRequestErrorResponse>(
+    config,
+    'POST',
+    '/input-request',
+    {
+      project_tag: projectTag,
+      prompt,
+      input_type: inputType,
+      ...(inputType === 'yesno' && { options: ['Yes', 'No'] }),
+      ...(timeoutSeconds && { timeout_seconds: timeoutSeconds }),
+    }
+  );
+
+  if (status === 200 && data.success) {
+    return { answered: true, response: data.response };
+  }
+  return { answered: false, error: data.success ? `HTTP ${status}` : data.error, status };
+}
+
+async function handleNotification(
+  input: HookInput,
+  config: Config,
+  projectTag: string | undefined,
+  options: HookRunOptions
+): Promise<HookResult> {
+  const message = input.message || 'Claude Code needs your attention';
+  const inputType = /permission/i.test(message) ? 'yesno' : 'text';
+  const result = await askPhone(config, projectTag, message, inputType, options.timeoutSeconds);
+
+  if (!result.answered) {
+    // No phone monitoring or no answer in time - nothing to report back
+    return result.status === 503 || result.status === 504
+      ? { exitCode: 0 }
+      : { exitCode: 1, stderr: `Thought Traveller: ${result.error}` };
+  }
+
+  // systemMessage is only shown to the user; additionalContext is what reaches Claude
+  const reply = `Reply from phone: ${result.response}`;
+  return {
+    exitCode: 0,
+    stdout: JSON.stringify({
+      systemMessage: reply,
+      hookSpecificOutput: {
+        hookEventName: 'Notification',
+        additionalContext: reply,
+      },
+    }),
+  };
+}
+
+// Tell the phone the task finished, optionally asking what to do next
+async function handleStop(
+  input: HookInput,
+  config: Config,
+  projectTag: string | undefined,
+  options: HookRunOptions
+): Promise<HookResult> {
+  const summary = readTranscriptSummary(input.transcript_path);
+  await requestListener<TaskCompleteResponse>(config, 'POST', '/task-complete', {
+    session_id: input.session_id,
+    project_tag: projectTag,
+    summary,
+  });
+
+  if (!options.ask) {
+    return { exitCode: 0 };
+  }
+
+  const prompt = summary
+    ? `Claude finished: ${summary}\n\nReply with next instructions, or "done" to end.`
+    : 'Claude finished. Reply with next instructions, or "done" to end.';
+  const result = await askPhone(config, projectTag, prompt, 'text', options.timeoutSeconds);
+
+  if (!result.answered || STOP_REPLIES.test(result.response.trim())) {
+    return { exitCode: 0 };
+  }
+
+  // "block" keeps Claude working, with the phone reply as its next instruction
+  return {
+    exitCode: 0,
+    stdout: JSON.stringify({ decision: 'block', reason: result.response.trim() }),
+  };
+}
+
+// Ask the phone (or the project allowlist) whether Claude may run this tool
+async function handlePreToolUse(
+  input: HookInput,
+  config: Config,
+  projectTag: string | undefined,
+  options: HookRunOptions
+): Promise<HookResult> {
+  if (!input.tool_name) {
+    return { exitCode: 1, stderr: 'Thought Traveller: PreToolUse input has no tool_name' };
+  }
+
+  const { status, data } = await requestListener<PermissionRequestResponse | InputRequestErrorResponse>(
+    config,
+    'POST',
+    '/permission-request',
+    {
+      project_tag: projectTag,
+      tool_name: input.tool_name,
+      tool_input: input.tool_input || {},
+      ...(options.timeoutSeconds && { timeout_seconds: options.timeoutSeconds }),
+    }
+  );
+
+  if (status !== 200 || !data.success) {
+    // No phone monitoring or no answer in time - fall back to Claude Code's own prompt
+    return status === 503 || status === 504
+      ? { exitCode: 0 }
+      : { exitCode: 1, stderr: `Thought Traveller: ${data.success ? `HTTP ${status}` : data.error}` };
+  }
+
+  const device = data.responded_by ? ` (${data.responded_by})` : '';
+  const reason = data.source === 'allowlist'
+    ? 'Allowed by the Thought Traveller allowlist'
+    : data.decision === 'allow'
+      ? `Approved from phone${device}`
+      : `Denied from phone${device}`;
+
+  return {
+    exitCode: 0,
+    stdout: JSON.stringify({
+      hookSpecificOutput: {
+        hookEventName: 'PreToolUse',
+        permissionDecision: data.decision,
+        permissionDecisionReason: reason,
+      },
+    }),
+  };
+}
+
+/**
+ * Handle one Claude Code hook event. Follows the hook protocol: exit code 0
+ * with optional JSON on stdout; failures exit 1 so Claude Code shows the error
+ * without blocking the session.
+ */
+export async function runHook(
+  event: HookEvent,
+  input: HookInput,
+  config: Config,
+  options: HookRunOptions = {}
+): Promise<HookResult> {
+  const projectTag = options.projectTag || resolveProjectTag(config, input.cwd);
+
+  try {
+    switch (event) {
+      case 'Notification':
+        return await handleNotification(input, config, projectTag, options);
+      case 'Stop':
+        return await handleStop(input, config, projectTag, options);
+      default:
+        return await handlePreToolUse(input, config, projectTag, options);
+    }
+  } catch (err) {
+    return { exitCode: 1, stderr: `Thought Traveller: listener unreachable (${(err as Error).message})` };
+  }
+}
@@ -0,0 +1,149 @@
+import * as crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { AuthIdentity, ConversationPayload, ErrorResponse, NotePayload } from './types';
+import { hashMessages } from './continuity';
+import { getLogger } from './logger';
+
+// Replays of POSTs that phones retry over flaky networks. The first successful
+// response for a key is kept, and a retry with the same key gets that response
+// back instead of saving again. Only kept in memory: a restart forgets them.
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENCY_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+const MAX_CACHED_RESPONSES = 1000;
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+
+interface CachedResponse {
+  fingerprint: string;   // Hash of the request body, to catch a key reused for a different request
+  resource?: string;     // For derived keys, e.g. "note:<id>", so later edits can drop the replay
+  status: number;
+  body: unknown;
+  storedAt: number;
+}
+
+// Map iteration order is insertion order, so the first entry is always the oldest
+const responses = new Map<string, CachedResponse>();
+
+// Derives "<resource>:<content hash>" from the payload when the client sends no key; undefined means don't cache
+export type IdempotencyKeyDeriver = (body: unknown) => string | undefined;
+
+function sha256(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+// The same note saved with the same content
+export function deriveNoteKey(body: unknown): string | undefined {
+  const payload = body as Partial<NotePayload> | undefined;
+  return payload?.note_id ? `note:${payload.note_id}:${sha256(JSON.stringify(payload))}` : undefined;
+}
+
+// The same conversation sent with the same messages, to the same project and file
+export function deriveConversationKey(body: unknown): string | undefined {
+  const payload = body as Partial<ConversationPayload> | undefined;
+  const messages = payload?.conversation?.messages;
+  if (!payload?.conversation_id || !Array.isArray(messages)) {
+    return undefined;
+  }
+  try {
+    const target = [payload.project_tag, payload.is_continuation === true, payload.filename ?? null];
+    return `conversation:${payload.conversation_id}:${sha256(JSON.stringify([target, hashMessages(messages)]))}`;
+  } catch {
+    return undefined;   // Malformed messages; the handler rejects them
+  }
+}
+
+function identityScope(identity: AuthIdentity | undefined): string {
+  return identity?.kind === 'device' ? `device:${identity.device.id}` : 'shared';
+}
+
+function pruneExpired(now: number): void {
+  for (const [key, cached] of responses) {
+    if (now - cached.storedAt < CACHE_TTL_MS) {
+      break;
+    }
+    responses.delete(key);
+  }
+}
+
+function remember(key: string, cached: CachedResponse): void {
+  responses.delete(key);
+  responses.set(key, cached);
+  while (responses.size > MAX_CACHED_RESPONSES) {
+    responses.delete(responses.keys().next().value!);
+  }
+}
+
+/**
+ * Route middleware, after authMiddleware. Uses the Idempotency-Key header (or
+ * idempotency_key in the body), else the deriver's key. Keys are scoped to the
+ * device and route, and only 2xx responses are kept, so a request that failed
+ * can be retried for real.
+ */
+export function idempotency(deriveKey?: IdempotencyKeyDeriver) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const explicitKey = req.get(IDEMPOTENCY_HEADER) || (req.body as { idempotency_key?: unknown })?.idempotency_key;
+    if (explicitKey !== undefined && (typeof explicitKey !== 'string' || !explicitKey || explicitKey.length > MAX_KEY_LENGTH)) {
+      const response: ErrorResponse = { error: `Invalid ${IDEMPOTENCY_HEADER}`, details: `Must be 1-${MAX_KEY_LENGTH} characters` };
+      res.status(400).json(response);
+      return;
+    }
+
+    const key = (explicitKey as string | undefined) || deriveKey?.(req.body);
+    if (!key) {
+      next();
+      return;
+    }
+
+    const now = Date.now();
+    pruneExpired(now);
+
+    const scopedKey = `${identityScope(res.locals.identity)} ${req.method} ${req.path} ${key}`;
+    const fingerprint = sha256(JSON.stringify(req.body ?? null));
+    const cached = responses.get(scopedKey);
+
+    if (cached) {
+      // Derived keys already stand for the content that matters, so only explicit keys are checked
+      if (explicitKey && cached.fingerprint !== fingerprint) {
+        const response: ErrorResponse = {
+          error: `${IDEMPOTENCY_HEADER} was already used for a different request`,
+          details: 'Use a new key for each distinct request',
+        };
+        res.status(422).json(response);
+        return;
+      }
+      getLogger().info(`→ Replayed response to ${req.method} ${req.path} (${explicitKey ? IDEMPOTENCY_HEADER : 'same payload'})`);
+      res.set(IDEMPOTENCY_REPLAYED_HEADER, 'true');
+      res.status(cached.status).json(cached.body);
+      return;
+    }
+
+    const json = res.json.bind(res);
+    res.json = (body: unknown) => {
+      if (res.statusCode >= 200 && res.statusCode < 300) {
+        const resource = explicitKey ? undefined : key.slice(0, key.lastIndexOf(':'));
+        remember(scopedKey, { fingerprint, resource, status: res.statusCode, body, storedAt: Date.now() });
+      }
+      return json(body);
+    };
+    next();
+  };
+}
+
+/**
+ * Drop replays derived from a resource's content, once it was saved, changed
+ * or deleted. Sending earlier content again then saves it again rather than
+ * returning a response that no longer describes the file.
+ */
+export function forgetResponsesFor(resource: string): void {
+  for (const [key, cached] of responses) {
+    if (cached.resource === resource) {
+      responses.delete(key);
+    }
+  }
+}
+
+export function clearIdempotencyCache(): void {
+  responses.clear();
+}
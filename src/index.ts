@@ -2,6 +2,31 @@ export * from './types';
 export * from './config';
 export * from './server';
 export * from './markdown';
+export * from './archive';
+export * from './filename-template';
+export * from './conversations';
+export * from './notes';
+export * from './client';
+export * from './hooks';
+export * from './mcp';
+export * from './permissions';
 export * from './logger';
 export * from './tls';
 export * from './bonjour';
+export * from './upnp';
+export * from './daemon';
+export * from './service';
+export * from './logs';
+export * from './log-rotation';
+export * from './devices';
+export * from './auth';
+export * from './pairing';
+export * from './qrcode';
+export * from './rate-limit';
+export * from './safe-path';
+export * from './store';
+export * from './reindex';
+export * from './continuity';
+export * from './idempotency';
+export * from './validation';
+export * from './schemas';
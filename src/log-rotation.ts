@@ -0,0 +1,253 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { pipeline } from 'stream/promises';
+import Transport from 'winston-transport';
+
+// Formatted line winston attaches to each entry (triple-beam's MESSAGE)
+const MESSAGE = Symbol.for('message');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RotationOptions {
+  maxSizeBytes: number;    // 0 disables rotation
+  maxFiles: number;        // rotated copies to keep: name.1 (newest) to name.N
+  retentionDays: number;   // 0 keeps rotated copies regardless of age
+  compress: boolean;
+}
+
+export interface RotatingFileTransportOptions extends Transport.TransportStreamOptions {
+  filename: string;
+  rotation: RotationOptions;
+  // False for processes that share the file with the listener (hooks, MCP, CLI
+  // commands): they only append, and reopen the file once it has been rotated
+  rotate?: boolean;
+}
+
+/**
+ * Appends log lines to a file, renaming it to name.1 (shifting older copies
+ * up) once it reaches the size limit. Rotated copies can be gzipped and are
+ * deleted past maxFiles or retentionDays. Writes are synchronous so a line is
+ * on disk before the next one is rotated; compression runs in the background.
+ * Only one process should rotate a given file.
+ */
+export class RotatingFileTransport extends Transport {
+  private filename: string;
+  private rotation: RotationOptions;
+  private rotates: boolean;
+  private fd: number | null = null;
+  private size = 0;
+  private compression: Promise<void> = Promise.resolve();
+
+  constructor(options: RotatingFileTransportOptions) {
+    super(options);
+    this.filename = options.filename;
+    this.rotation = options.rotation;
+    this.rotates = options.rotate ?? true;
+    this.open();
+    if (this.rotates) {
+      // Left behind if the process exited while compressing
+      removeFile(this.compressionTempPath());
+      this.removeExpired();
+    }
+  }
+
+  // Change limits on a running transport; takes effect from the next write
+  setRotation(rotation: RotationOptions): void {
+    this.rotation = rotation;
+    if (!this.rotates) {
+      return;
+    }
+    this.removeExpired();
+    if (this.shouldRotate(0)) {
+      this.rotate();
+    }
+  }
+
+  log(info: Record<string | symbol, unknown>, callback: () => void): void {
+    const line = Buffer.from(`${info[MESSAGE]}\n`, 'utf-8');
+
+    try {
+      if (this.rotates) {
+        if (this.fd !== null) {
+          // Other processes append to the same file
+          this.size = fs.fstatSync(this.fd).size;
+        }
+        if (this.shouldRotate(line.length)) {
+          this.rotate();
+        }
+      } else if (this.fd !== null && this.wasRotatedAway()) {
+        this.close();
+      }
+      if (this.fd === null) {
+        this.open();
+      }
+      fs.writeSync(this.fd!, line);
+      this.size += line.length;
+    } catch (err) {
+      this.emit('error', err);
+    }
+
+    this.emit('logged', info);
+    callback();
+  }
+
+  close(): void {
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+
+  _final(callback: () => void): void {
+    this.close();
+    this.compression.then(callback);
+  }
+
+  private open(): void {
+    fs.mkdirSync(path.dirname(this.filename), { recursive: true });
+    this.fd = fs.openSync(this.filename, 'a');
+    this.size = fs.fstatSync(this.fd).size;
+  }
+
+  // The path now names a different file (or none) than the one this process has open
+  private wasRotatedAway(): boolean {
+    try {
+      return fs.statSync(this.filename).ino !== fs.fstatSync(this.fd!).ino;
+    } catch {
+      return true;
+    }
+  }
+
+  private shouldRotate(incoming: number): boolean {
+    return this.rotation.maxSizeBytes > 0 && this.size > 0 && this.size + incoming > this.rotation.maxSizeBytes;
+  }
+
+  private rotatedPath(index: number, compressed: boolean): string {
+    return `${this.filename}.${index}${compressed ? '.gz' : ''}`;
+  }
+
+  private compressionTempPath(): string {
+    return `${this.rotatedPath(1, true)}.tmp`;
+  }
+
+  /**
+   * Gzip name.1 off the write path, one file at a time. Later rotations may
+   * shift the copy up while it waits or compresses, so it is found by inode.
+   */
+  private compressFirst(): void {
+    const inode = fs.statSync(this.rotatedPath(1, false)).ino;
+    const temp = this.compressionTempPath();
+
+    this.compression = this.compression
+      .then(async () => {
+        const source = this.findRotatedCopy(inode);
+        if (!source) {
+          return;   // Already dropped past maxFiles
+        }
+        await pipeline(fs.createReadStream(source), zlib.createGzip(), fs.createWriteStream(temp));
+        const current = this.findRotatedCopy(inode);
+        if (current) {
+          fs.renameSync(temp, `${current}.gz`);
+          fs.unlinkSync(current);
+        } else {
+          fs.unlinkSync(temp);
+        }
+      })
+      .catch((err) => {
+        removeFile(temp);
+        this.emit('error', err);
+      });
+  }
+
+  // Current path of an uncompressed rotated copy
+  private findRotatedCopy(inode: number): string | null {
+    for (const { file } of this.rotatedFiles()) {
+      try {
+        if (!file.endsWith('.gz') && fs.statSync(file).ino === inode) {
+          return file;
+        }
+      } catch {
+        // Moved on by a rotation
+      }
+    }
+    return null;
+  }
+
+  private rotate(): void {
+    this.close();
+    const { maxFiles, compress } = this.rotation;
+
+    // Shift name.N -> name.N+1, dropping anything past maxFiles. Both plain and
+    // .gz copies are handled since compression can be toggled at runtime.
+    for (let index = Math.max(maxFiles, this.highestRotatedIndex()); index >= 1; index--) {
+      for (const compressed of [false, true]) {
+        const from = this.rotatedPath(index, compressed);
+        if (!fs.existsSync(from)) {
+          continue;
+        }
+        if (index >= maxFiles) {
+          fs.unlinkSync(from);
+        } else {
+          fs.renameSync(from, this.rotatedPath(index + 1, compressed));
+        }
+      }
+    }
+
+    if (maxFiles > 0) {
+      const first = this.rotatedPath(1, false);
+      fs.renameSync(this.filename, first);
+      if (compress) {
+        this.compressFirst();
+      }
+    } else {
+      fs.unlinkSync(this.filename);
+    }
+
+    this.open();
+    this.removeExpired();
+  }
+
+  private rotatedFiles(): Array<{ file: string; index: number }> {
+    const base = path.basename(this.filename);
+    const pattern = new RegExp(`^${base.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\.(\\d+)(\\.gz)?$`);
+    let names: string[];
+    try {
+      names = fs.readdirSync(path.dirname(this.filename));
+    } catch {
+      return [];
+    }
+    return names
+      .map((name) => ({ name, match: name.match(pattern) }))
+      .filter((item) => item.match)
+      .map((item) => ({ file: path.join(path.dirname(this.filename), item.name), index: parseInt(item.match![1], 10) }));
+  }
+
+  private highestRotatedIndex(): number {
+    return this.rotatedFiles().reduce((max, item) => Math.max(max, item.index), 0);
+  }
+
+  private removeExpired(): void {
+    if (this.rotation.retentionDays <= 0) {
+      return;
+    }
+    const cutoff = Date.now() - this.rotation.retentionDays * DAY_MS;
+    for (const { file } of this.rotatedFiles()) {
+      try {
+        if (fs.statSync(file).mtimeMs < cutoff) {
+          fs.unlinkSync(file);
+        }
+      } catch {
+        // Removed by another process
+      }
+    }
+  }
+}
+
+function removeFile(file: string): void {
+  try {
+    fs.unlinkSync(file);
+  } catch {
+    // Already gone
+  }
+}
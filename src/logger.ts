@@ -1,23 +1,178 @@
 import winston from 'winston';
 import * as path from 'path';
+import * as os from 'os';
+import * as crypto from 'crypto';
 import { getLogsDir, ensureConfigDir } from './config';
+import { LoggingConfig, RedactionMode } from './types';
+import { RotatingFileTransport, RotationOptions } from './log-rotation';
+
+export const REDACTION_MODES: RedactionMode[] = ['full', 'hashed', 'truncated', 'off'];
+
+export const DEFAULT_LOGGING_CONFIG: LoggingConfig = {
+  level: 'info',
+  max_size_mb: 10,
+  max_files: 5,
+  retention_days: 14,
+  compress: false,
+  redaction: 'hashed',
+};
+
+const TRUNCATED_CONTENT_LENGTH = 24;
+
+// Metadata keys whose values are always redacted, by kind
+const SECRET_KEYS = ['token', 'auth_token', 'authorization', 'apnsToken', 'apns_token', 'deviceToken', 'password'];
+const CONTENT_KEYS = ['prompt', 'response', 'content', 'preview', 'summary'];
+const PATH_KEYS = ['path', 'file_path', 'cwd', 'transcript_path'];
 
 let logger: winston.Logger | null = null;
+let redactionMode: RedactionMode = DEFAULT_LOGGING_CONFIG.redaction;
+const knownSecrets = new Set<string>();
+
+function shortHash(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex').slice(0, 8);
+}
+
+/**
+ * Mask a credential (auth token, APNs device token) for logging. Hashed mode
+ * keeps a short fingerprint so two entries can be matched to the same device.
+ */
+export function redactSecret(value: string): string {
+  switch (redactionMode) {
+    case 'off':
+      return value;
+    case 'hashed':
+      return `[secret ${shortHash(value)}]`;
+    case 'truncated':
+      return `${value.slice(0, 4)}…`;
+    default:
+      return '[secret]';
+  }
+}
+
+// Mask prompt, response or command text for logging
+export function redactContent(value: string): string {
+  switch (redactionMode) {
+    case 'off':
+      return value;
+    case 'hashed':
+      return `[${value.length} chars ${shortHash(value)}]`;
+    case 'truncated':
+      return value.length > TRUNCATED_CONTENT_LENGTH ? `${value.slice(0, TRUNCATED_CONTENT_LENGTH)}… (${value.length} chars)` : value;
+    default:
+      return `[${value.length} chars]`;
+  }
+}
+
+// Mask a file path for logging; truncated mode keeps only the file name
+export function redactPath(value: string): string {
+  switch (redactionMode) {
+    case 'off':
+      return value;
+    case 'hashed':
+      return `[path ${shortHash(value)}]`;
+    case 'truncated':
+      return `…/${path.basename(value)}`;
+    default:
+      return '[path]';
+  }
+}
+
+// Values (such as the auth token) to mask wherever they appear in a log entry
+export function registerLogSecret(value: string | undefined): void {
+  if (value) {
+    knownSecrets.add(value);
+  }
+}
+
+/**
+ * Safety net for values that weren't wrapped by the caller: registered
+ * secrets, Bearer credentials, APNs device tokens (64 hex characters) and
+ * paths under the home directory.
+ */
+function scrub(text: string): string {
+  let result = text;
+  for (const secret of knownSecrets) {
+    if (result.includes(secret)) {
+      result = result.split(secret).join(redactSecret(secret));
+    }
+  }
+  result = result
+    .replace(/(Bearer\s+)([^\s"']+)/gi, (_match, prefix: string, token: string) => prefix + redactSecret(token))
+    .replace(/\b[0-9a-f]{64}\b/gi, (token) => redactSecret(token));
+
+  const home = os.homedir();
+  if (home.length > 1) {
+    const homePattern = new RegExp(`${home.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}[^\\s"':,)]*`, 'g');
+    result = result.replace(homePattern, (match) => redactPath(match));
+  }
+  return result;
+}
+
+const redactFormat = winston.format((info) => {
+  if (redactionMode === 'off') {
+    return info;
+  }
+  for (const key of Object.keys(info)) {
+    const value = info[key];
+    if (typeof value !== 'string' || key === 'level' || key === 'timestamp' || key === 'project') {
+      continue;
+    }
+    if (SECRET_KEYS.includes(key)) {
+      info[key] = redactSecret(value);
+    } else if (CONTENT_KEYS.includes(key)) {
+      info[key] = redactContent(value);
+    } else if (PATH_KEYS.includes(key)) {
+      info[key] = redactPath(value);
+    } else {
+      info[key] = scrub(value);
+    }
+  }
+  return info;
+});
 
-export function initLogger(isDaemon: boolean = false): winston.Logger {
+export function resolveLoggingConfig(logging?: Partial<LoggingConfig>): LoggingConfig {
+  return { ...DEFAULT_LOGGING_CONFIG, ...logging };
+}
+
+function toRotationOptions(logging: LoggingConfig): RotationOptions {
+  return {
+    maxSizeBytes: Math.round(logging.max_size_mb * 1024 * 1024),
+    maxFiles: logging.max_files,
+    retentionDays: logging.retention_days,
+    compress: logging.compress,
+  };
+}
+
+/**
+ * Only the listener (ownsLogFiles) rotates the log files. Hooks, the MCP server
+ * and other CLI commands append to the same files without rotating them, so
+ * two processes never rotate at once.
+ */
+export function initLogger(
+  isDaemon: boolean = false,
+  loggingConfig?: Partial<LoggingConfig>,
+  ownsLogFiles: boolean = false
+): winston.Logger {
   ensureConfigDir();
   const logsDir = getLogsDir();
+  const logging = resolveLoggingConfig(loggingConfig);
+  const rotation = toRotationOptions(logging);
+  redactionMode = logging.redaction;
 
   const transports: winston.transport[] = [];
 
-  // File transport for all modes
+  // File transports for all modes
   transports.push(
-    new winston.transports.File({
+    new RotatingFileTransport({
       filename: path.join(logsDir, 'error.log'),
       level: 'error',
+      rotation,
+      rotate: ownsLogFiles,
     }),
-    new winston.transports.File({
+    new RotatingFileTransport({
       filename: path.join(logsDir, 'combined.log'),
+      rotation,
+      rotate: ownsLogFiles,
     })
   );
 
@@ -34,8 +189,9 @@ export function initLogger(isDaemon: boolean = false): winston.Logger {
   }
 
   logger = winston.createLogger({
-    level: 'info',
+    level: logging.level,
     format: winston.format.combine(
+      redactFormat(),
       winston.format.timestamp(),
       winston.format.json()
     ),
@@ -51,3 +207,41 @@ export function getLogger(): winston.Logger {
   }
   return logger;
 }
+
+// Apply a changed logging section to the running logger without restarting
+export function applyLoggingConfig(loggingConfig?: Partial<LoggingConfig>): LoggingConfig {
+  const logging = resolveLoggingConfig(loggingConfig);
+  const current = getLogger();
+
+  current.level = logging.level;
+  redactionMode = logging.redaction;
+  for (const transport of current.transports) {
+    if (transport instanceof RotatingFileTransport) {
+      transport.setRotation(toRotationOptions(logging));
+    }
+  }
+
+  return logging;
+}
+
+// Close file transports before exiting so nothing buffered is lost
+export function closeLogger(): Promise<void> {
+  return new Promise((resolve) => {
+    if (!logger) {
+      resolve();
+      return;
+    }
+    const fileTransports = logger.transports.filter((t) => t instanceof RotatingFileTransport);
+    let pending = fileTransports.length;
+    if (pending === 0) {
+      resolve();
+    }
+    fileTransports.forEach((t) => t.on('finish', () => {
+      if (--pending === 0) {
+        resolve();
+      }
+    }));
+    logger.end();
+    logger = null;
+  });
+}
@@ -0,0 +1,263 @@
+import * as fs from 'fs';
+import { LogLevel } from './types';
+
+// Reading, filtering and following the listener's JSON log files
+
+export const LOG_LEVELS: LogLevel[] = ['error', 'warn', 'info', 'http', 'verbose', 'debug', 'silly'];
+
+export interface LogEntry {
+  level: string;
+  message: string;
+  timestamp?: string;
+  project?: string;
+  [key: string]: unknown;
+}
+
+export interface LogFilter {
+  level?: LogLevel;     // this level and more severe
+  grep?: RegExp;
+  since?: Date;
+  until?: Date;
+  project?: string;
+}
+
+export interface LogLine {
+  raw: string;
+  entry: LogEntry | null;   // null for lines that aren't winston JSON
+}
+
+const READ_CHUNK_SIZE = 64 * 1024;
+const FOLLOW_INTERVAL_MS = 500;
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse --since/--until: a relative duration ("30s", "15m", "2h", "1d") counted
+ * back from now, or anything Date understands ("2024-05-01", "2024-05-01T09:30").
+ */
+export function parseTimeSpec(spec: string): Date {
+  const relative = spec.trim().match(/^(\d+)([smhd])$/);
+  if (relative) {
+    return new Date(Date.now() - parseInt(relative[1], 10) * DURATION_UNITS[relative[2]]);
+  }
+  const date = new Date(spec);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid time "${spec}". Use a duration like 15m, 2h or 1d, or a date like 2024-05-01T09:30`);
+  }
+  return date;
+}
+
+// Case-insensitive pattern; falls back to a literal match when it isn't a valid regex
+export function parseGrepPattern(pattern: string): RegExp {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+  }
+}
+
+export function parseLogLine(raw: string): LogLine {
+  try {
+    const entry = JSON.parse(raw);
+    if (entry && typeof entry.level === 'string' && 'message' in entry) {
+      return { raw, entry: { ...entry, message: String(entry.message) } };
+    }
+  } catch {
+    // Not JSON
+  }
+  return { raw, entry: null };
+}
+
+// Entries logged before project metadata existed only mention the tag as "tag/..." or ": tag"
+function mentionsProject(entry: LogEntry, project: string): boolean {
+  if (entry.project !== undefined) {
+    return entry.project === project;
+  }
+  return entry.message.includes(`${project}/`) || entry.message.includes(`: ${project} `);
+}
+
+export function matchesFilter(line: LogLine, filter: LogFilter): boolean {
+  const { entry } = line;
+
+  if (!entry) {
+    // Unstructured lines can only be matched by text
+    if (filter.level || filter.since || filter.until || filter.project) {
+      return false;
+    }
+    return !filter.grep || filter.grep.test(line.raw);
+  }
+
+  if (filter.level) {
+    const rank = LOG_LEVELS.indexOf(entry.level as LogLevel);
+    if (rank === -1 || rank > LOG_LEVELS.indexOf(filter.level)) {
+      return false;
+    }
+  }
+
+  if (filter.since || filter.until) {
+    const time = entry.timestamp ? new Date(entry.timestamp).getTime() : NaN;
+    if (isNaN(time)) {
+      return false;
+    }
+    if (filter.since && time < filter.since.getTime()) {
+      return false;
+    }
+    if (filter.until && time > filter.until.getTime()) {
+      return false;
+    }
+  }
+
+  if (filter.project && !mentionsProject(entry, filter.project)) {
+    return false;
+  }
+
+  return !filter.grep || filter.grep.test(entry.message);
+}
+
+/**
+ * The last `count` lines matching the filter, oldest first. Reads backwards in
+ * chunks so large log files aren't loaded into memory.
+ */
+export function readLastLogLines(filePath: string, count: number, filter: LogFilter): LogLine[] {
+  const result: LogLine[] = [];
+  if (count <= 0) {
+    return result;
+  }
+
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    let position = fs.fstatSync(fd).size;
+    // Kept as bytes so multi-byte characters split across chunks decode intact
+    let remainder = Buffer.alloc(0);
+
+    while (position > 0 && result.length < count) {
+      const size = Math.min(READ_CHUNK_SIZE, position);
+      position -= size;
+      const buffer = Buffer.alloc(size);
+      fs.readSync(fd, buffer, 0, size, position);
+
+      let data = Buffer.concat([buffer, remainder]);
+      // The first piece may be the end of a line that starts in an earlier chunk
+      remainder = Buffer.alloc(0);
+      if (position > 0) {
+        const newline = data.indexOf(0x0a);
+        if (newline === -1) {
+          remainder = data;
+          continue;
+        }
+        remainder = data.subarray(0, newline);
+        data = data.subarray(newline + 1);
+      }
+
+      const lines = data.toString('utf-8').split('\n');
+      for (let i = lines.length - 1; i >= 0 && result.length < count; i--) {
+        if (lines[i].trim()) {
+          const line = parseLogLine(lines[i]);
+          if (matchesFilter(line, filter)) {
+            result.push(line);
+          }
+        }
+      }
+    }
+
+    if (remainder.length > 0 && result.length < count) {
+      const line = parseLogLine(remainder.toString('utf-8'));
+      if (matchesFilter(line, filter)) {
+        result.push(line);
+      }
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  return result.reverse();
+}
+
+/**
+ * Call onLine for each matching line appended to the file from now on. When
+ * the file is replaced (a new inode) or truncated, reading restarts from the
+ * top of the new file. Returns a function that stops following.
+ */
+export function followLog(filePath: string, filter: LogFilter, onLine: (line: LogLine) => void): () => void {
+  let inode: number | null = null;
+  let position = 0;
+  let partial = Buffer.alloc(0);
+
+  try {
+    const stats = fs.statSync(filePath);
+    inode = stats.ino;
+    position = stats.size;
+  } catch {
+    // Not created yet; start from the beginning once it appears
+  }
+
+  // Read the next file (or the same one, truncated) from the top
+  const restart = (nextInode: number | null) => {
+    inode = nextInode;
+    position = 0;
+    partial = Buffer.alloc(0);
+  };
+
+  const poll = () => {
+    let stats: fs.Stats;
+    try {
+      stats = fs.statSync(filePath);
+    } catch {
+      return;
+    }
+
+    if (stats.ino !== inode || stats.size < position) {
+      restart(stats.ino);
+    }
+    if (stats.size === position) {
+      return;
+    }
+
+    let fd: number;
+    try {
+      fd = fs.openSync(filePath, 'r');
+    } catch (err) {
+      const code = (err as NodeJS.ErrnoException).code;
+      if (code === 'ENOENT' || code === 'EACCES') {
+        // Rotated away between the stat and the open; pick up the new file next tick
+        restart(null);
+        return;
+      }
+      throw err;
+    }
+    try {
+      if (fs.fstatSync(fd).ino !== inode) {
+        // Opened the file that replaced the one just stat'ed; read it from the top next tick
+        restart(null);
+        return;
+      }
+      const buffer = Buffer.alloc(stats.size - position);
+      fs.readSync(fd, buffer, 0, buffer.length, position);
+      position = stats.size;
+
+      const data = Buffer.concat([partial, buffer]);
+      const end = data.lastIndexOf(0x0a);
+      // Hold back an incomplete last line until the rest of it is written
+      partial = data.subarray(end + 1);
+      const lines = end === -1 ? [] : data.subarray(0, end).toString('utf-8').split('\n');
+      for (const raw of lines) {
+        if (raw.trim()) {
+          const line = parseLogLine(raw);
+          if (matchesFilter(line, filter)) {
+            onLine(line);
+          }
+        }
+      }
+    } finally {
+      fs.closeSync(fd);
+    }
+  };
+
+  const timer = setInterval(poll, FOLLOW_INTERVAL_MS);
+  return () => clearInterval(timer);
+}
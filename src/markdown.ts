@@ -1,7 +1,28 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { ConversationPayload, Message, ProjectConfig, NotePayload } from './types';
-import { resolvePath } from './config';
+import {
+  ContinuationReconciliation,
+  ConversationIndexEntry,
+  ConversationPayload,
+  ConversationMessageView,
+  Message,
+  ProjectConfig,
+  NotePayload,
+  NotePriority,
+  NoteUpdatePayload,
+  ExportConfig,
+} from './types';
+import { resolvePath, resolveProjectFilePath } from './config';
+import { sanitizeRelativePath } from './safe-path';
+import { generateArchive, mergeArchiveContinuation, readArchive, serializeArchive, writeArchive } from './archive';
+import { ContinuationPlan, hashMessages, planContinuation } from './continuity';
+import {
+  DEFAULT_CONVERSATION_PATTERN,
+  DEFAULT_NOTE_PATTERN,
+  renderFilenamePattern,
+  conversationFilenameContext,
+  noteFilenameContext,
+} from './filename-template';
 
 function formatDate(isoString: string): string {
   const date = new Date(isoString);
@@ -25,6 +46,15 @@ function formatDateTime(isoString: string): string {
   return `${formatDate(isoString)} at ${formatTime(isoString)}`;
 }
 
+// Inverse of formatDateTime; null when the text isn't one of its dates
+function parseDateTime(text: string | undefined): string | null {
+  if (!text) {
+    return null;
+  }
+  const date = new Date(text.trim().replace(' at ', ' '));
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
 function formatMessageTime(isoString: string): string {
   const date = new Date(isoString);
   return date.toLocaleTimeString('en-US', {
@@ -34,12 +64,17 @@ function formatMessageTime(isoString: string): string {
   });
 }
 
-function generateFilename(payload: ConversationPayload): string {
-  const date = new Date(payload.timestamp);
-  const dateStr = date.toISOString().slice(0, 10); // YYYY-MM-DD
-  const timeStr = date.toISOString().slice(11, 19).replace(/:/g, ''); // HHmmss
-  const idShort = payload.conversation_id.slice(0, 8);
-  return `${dateStr}-${timeStr}-${idShort}.md`;
+function generateFilename(payload: ConversationPayload, pattern: string = DEFAULT_CONVERSATION_PATTERN): string {
+  return renderFilenamePattern(pattern, conversationFilenameContext(payload));
+}
+
+// Per-project patterns win over the export defaults
+export function resolveConversationPattern(project: ProjectConfig, exportConfig: ExportConfig): string {
+  return project.filename_pattern || exportConfig.filename_pattern || DEFAULT_CONVERSATION_PATTERN;
+}
+
+export function resolveNotePattern(project: ProjectConfig, exportConfig: ExportConfig): string {
+  return project.note_filename_pattern || exportConfig.note_filename_pattern || DEFAULT_NOTE_PATTERN;
 }
 
 function formatMessage(message: Message): string {
@@ -76,12 +111,23 @@ export function generateMarkdown(payload: ConversationPayload, projectName: stri
   return lines.join('\n');
 }
 
-export function generateContinuationMarkdown(payload: ConversationPayload, startIndex: number): string {
+// Revisions name the first message they replace (1-based) so the file can be parsed back
+const REVISION_HEADING_PATTERN = /^## Revision \(.*\) — replaces message (\d+) onwards$/gm;
+
+/**
+ * Messages from startIndex on, under a continuation heading. With revision,
+ * they replace the saved messages from startIndex on rather than follow them.
+ */
+export function generateContinuationMarkdown(payload: ConversationPayload, startIndex: number, revision: boolean = false): string {
   const lines: string[] = [];
 
   lines.push('---');
   lines.push('');
-  lines.push(`## Continuation (${formatDateTime(payload.timestamp)})`);
+  if (revision) {
+    lines.push(`## Revision (${formatDateTime(payload.timestamp)}) — replaces message ${startIndex + 1} onwards`);
+  } else {
+    lines.push(`## Continuation (${formatDateTime(payload.timestamp)})`);
+  }
   lines.push('');
 
   const newMessages = payload.conversation.messages.slice(startIndex);
@@ -97,6 +143,85 @@ export function generateContinuationMarkdown(payload: ConversationPayload, start
   return lines.join('\n');
 }
 
+// Lines the generator writes between messages; stripped when parsing exports back
+const TRAILER_LINE_PATTERNS = [
+  /^---$/,
+  /^## Continuation \(.*\)$/,
+  /^## Revision \(.*\) — replaces message \d+ onwards$/,
+  /^\*Last updated:.*\*$/,
+  /^\*Exported via Claude Traveller\*$/,
+];
+
+function stripMessageTrailer(segment: string): string {
+  const lines = segment.replace(/\s+$/, '').split('\n');
+  while (lines.length > 0) {
+    const last = lines[lines.length - 1].trim();
+    if (last === '' || TRAILER_LINE_PATTERNS.some((pattern) => pattern.test(last))) {
+      lines.pop();
+    } else {
+      break;
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Parse messages back out of a conversation written by generateMarkdown and
+ * generateContinuationMarkdown. Markdown only records the time of day, so
+ * messages carry the display time rather than a full timestamp. Messages a
+ * revision replaced are left out, so the result is the conversation as it
+ * now stands on the phone.
+ */
+export function parseConversationMarkdown(content: string): ConversationMessageView[] {
+  const headerPattern = /^\*\*(User|Claude)\*\* \(([^)]*)\):\n/gm;
+  const headers = Array.from(content.matchAll(headerPattern));
+  const revisions = Array.from(content.matchAll(REVISION_HEADING_PATTERN));
+
+  const messages: ConversationMessageView[] = [];
+  let nextRevision = 0;
+  headers.forEach((match, i) => {
+    while (nextRevision < revisions.length && revisions[nextRevision].index! < match.index!) {
+      messages.length = Math.min(messages.length, parseInt(revisions[nextRevision][1], 10) - 1);
+      nextRevision++;
+    }
+    const start = match.index! + match[0].length;
+    const end = i + 1 < headers.length ? headers[i + 1].index! : content.length;
+    messages.push({
+      role: match[1] === 'User' ? 'user' : 'assistant',
+      content: stripMessageTrailer(content.slice(start, end)),
+      time: match[2],
+    });
+  });
+  return messages;
+}
+
+export interface ConversationMarkdownHeader {
+  conversation_id: string;
+  project_name: string;
+  started_at: string | null;
+  last_updated: string | null;
+}
+
+/**
+ * Read the header generateMarkdown writes, or null if the content is not a
+ * conversation export. Times are only as precise as the displayed minute.
+ */
+export function parseConversationMarkdownHeader(content: string): ConversationMarkdownHeader | null {
+  const titleMatch = content.match(/^# Mobile Notes - (.*)$/m);
+  const idMatch = content.match(/^\*\*Conversation ID:\*\* (.+)$/m);
+  if (!titleMatch || !idMatch || titleMatch.index !== 0) {
+    return null;
+  }
+  const startedMatch = content.match(/^\*\*Started:\*\* (.+)$/m);
+  const updatedMatches = Array.from(content.matchAll(/^\*Last updated: (.*)\*$/gm));
+  return {
+    conversation_id: idMatch[1].trim(),
+    project_name: titleMatch[1].trim(),
+    started_at: parseDateTime(startedMatch?.[1]),
+    last_updated: parseDateTime(updatedMatches[updatedMatches.length - 1]?.[1]),
+  };
+}
+
 export function updateLastUpdated(content: string, timestamp: string): string {
   const lastUpdatedPattern = /\*Last updated:.*\*$/m;
   const newLastUpdated = `*Last updated: ${formatDateTime(timestamp)}*`;
@@ -112,69 +237,176 @@ export interface SaveResult {
   file: string;
   path: string;
   messages_added?: number;
+  message_hashes: string[];                           // Saved history, for the index
+  reconciliation?: ContinuationReconciliation;       // Continuations only
+}
+
+function getExportExtension(format: ExportConfig['format']): string {
+  return format === 'json' ? '.json' : '.md';
+}
+
+function ensureExtension(filename: string, extension: string): string {
+  if (filename.endsWith(extension)) {
+    return filename;
+  }
+  // Swap a known export extension rather than stacking a second one
+  const stripped = filename.replace(/\.(md|json)$/, '');
+  return stripped + extension;
+}
+
+function appendMarkdownContinuation(existingFilePath: string, payload: ConversationPayload, plan: ContinuationPlan): void {
+  const existingContent = fs.readFileSync(existingFilePath, 'utf-8');
+
+  // Remove the last "Last updated" line before appending
+  const contentWithoutLastUpdated = existingContent.replace(/\n\*Last updated:.*\*\s*$/, '');
+
+  const continuationContent = generateContinuationMarkdown(payload, plan.startIndex, plan.revision);
+  const newContent = contentWithoutLastUpdated + '\n' + continuationContent;
+
+  fs.writeFileSync(existingFilePath, newContent, 'utf-8');
+}
+
+function appendArchiveContinuation(existingFilePath: string, payload: ConversationPayload, plan: ContinuationPlan): void {
+  const archive = readArchive(existingFilePath);
+  const { archive: merged } = mergeArchiveContinuation(archive, payload, plan.startIndex, plan.revision);
+  writeArchive(existingFilePath, merged);
+}
+
+/**
+ * Saved history to reconcile against for index entries written before the
+ * index kept hashes. JSON archives hold the messages verbatim. Markdown doesn't
+ * always parse back to what the phone sent (a message ending in a "---" line,
+ * or containing a "**User** (…):" line), so unless it matches the payload
+ * exactly, previous_message_count is trusted this once. The index then keeps
+ * the payload's hashes, and later continuations compare against those.
+ */
+function legacySavedHashes(filePath: string, payload: ConversationPayload): string[] {
+  if (filePath.endsWith('.json')) {
+    return hashMessages(readArchive(filePath).messages);
+  }
+  const incoming = hashMessages(payload.conversation.messages);
+  const parsed = hashMessages(parseConversationMarkdown(fs.readFileSync(filePath, 'utf-8')));
+  if (parsed.length <= incoming.length && parsed.every((hash, i) => hash === incoming[i])) {
+    return parsed;
+  }
+  return incoming.slice(0, payload.previous_message_count ?? parsed.length);
+}
+
+function ensureParentDirectory(filePath: string): void {
+  const dir = path.dirname(filePath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+}
+
+/**
+ * Write a new file without replacing one that is already there. When the name
+ * is taken (two same-day saves that render the same pattern), "-2", "-3", ...
+ * is added before the extension until an unused name is found.
+ */
+function writeNewFile(project: ProjectConfig, filename: string, content: string): { file: string; path: string } {
+  const ext = path.extname(filename);
+  const stem = filename.slice(0, filename.length - ext.length);
+  for (let attempt = 1; ; attempt++) {
+    const file = attempt === 1 ? filename : `${stem}-${attempt}${ext}`;
+    const filePath = resolveProjectFilePath(project, file);
+    ensureParentDirectory(filePath);
+    let fd: number;
+    try {
+      fd = fs.openSync(filePath, 'wx');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'EEXIST') {
+        continue;
+      }
+      throw err;
+    }
+    try {
+      fs.writeFileSync(fd, content, 'utf-8');
+    } finally {
+      fs.closeSync(fd);
+    }
+    return { file, path: filePath };
+  }
 }
 
 export function saveConversation(
   payload: ConversationPayload,
   project: ProjectConfig,
-  existingFilePath: string | null,
-  createDirectories: boolean
+  existingEntry: ConversationIndexEntry | null,
+  exportConfig: ExportConfig
 ): SaveResult {
   const projectPath = resolvePath(project.path);
+  const format = exportConfig.format;
+  const existingFilePath = existingEntry?.file_path || null;
 
   // Ensure project directory exists if configured
-  if (createDirectories && !fs.existsSync(projectPath)) {
+  if (exportConfig.create_directories && !fs.existsSync(projectPath)) {
     fs.mkdirSync(projectPath, { recursive: true });
   }
 
-  // Use provided filename or auto-generate one
-  let filename = payload.filename || generateFilename(payload);
+  // Use provided filename or render the configured pattern, with the extension for the export format.
+  // Either way it must stay inside the project directory.
+  const filename = ensureExtension(
+    payload.filename ? sanitizeRelativePath(payload.filename) : generateFilename(payload, resolveConversationPattern(project, exportConfig)),
+    getExportExtension(format)
+  );
 
-  // Ensure .md extension
-  if (!filename.endsWith('.md')) {
-    filename += '.md';
-  }
-
-  // If continuation and existing file found, append to it
+  // If continuation and existing file found, add what the saved history lacks.
+  // The existing file keeps its original format even if export.format changed since.
   if (payload.is_continuation && existingFilePath && fs.existsSync(existingFilePath)) {
-    const existingContent = fs.readFileSync(existingFilePath, 'utf-8');
-
-    // Remove the last "Last updated" line before appending
-    const contentWithoutLastUpdated = existingContent.replace(/\n\*Last updated:.*\*\s*$/, '');
-
-    const continuationContent = generateContinuationMarkdown(payload, payload.previous_message_count);
-    const newContent = contentWithoutLastUpdated + '\n' + continuationContent;
-
-    fs.writeFileSync(existingFilePath, newContent, 'utf-8');
-
-    const messagesAdded = payload.conversation.messages.length - payload.previous_message_count;
+    const storedHashes = existingEntry?.message_hashes || legacySavedHashes(existingFilePath, payload);
+    const plan = planContinuation(storedHashes, payload.conversation.messages, payload.previous_message_count);
+
+    if (plan.reconciliation.messages_added > 0) {
+      if (existingFilePath.endsWith('.json')) {
+        appendArchiveContinuation(existingFilePath, payload, plan);
+      } else {
+        appendMarkdownContinuation(existingFilePath, payload, plan);
+      }
+    }
 
     return {
       action: 'appended',
       file: path.basename(existingFilePath),
       path: existingFilePath,
-      messages_added: messagesAdded,
+      messages_added: plan.reconciliation.messages_added,
+      message_hashes: plan.messageHashes,
+      reconciliation: plan.reconciliation,
     };
   }
 
-  // Create new file
-  const filePath = path.join(projectPath, filename);
-  const content = generateMarkdown(payload, project.name);
-  fs.writeFileSync(filePath, content, 'utf-8');
+  // Create new file (patterns may place it in subdirectories of the project)
+  const created = writeNewFile(
+    project,
+    filename,
+    format === 'json' ? serializeArchive(generateArchive(payload, project.name)) : generateMarkdown(payload, project.name)
+  );
+
+  // A continuation with nothing to continue: the whole payload went into the new file
+  const messageCount = payload.conversation.messages.length;
+  const reconciliation: ContinuationReconciliation | undefined = payload.is_continuation
+    ? {
+        status: 'missing_file',
+        previous_message_count: payload.previous_message_count,
+        stored_message_count: 0,
+        divergence_index: 0,
+        messages_added: messageCount,
+        messages_revised: 0,
+        ...(existingFilePath && { previous_file: path.basename(existingFilePath) }),
+      }
+    : undefined;
 
   return {
     action: 'created',
-    file: filename,
-    path: filePath,
+    file: created.file,
+    path: created.path,
+    message_hashes: hashMessages(payload.conversation.messages),
+    ...(reconciliation && { messages_added: messageCount, reconciliation }),
   };
 }
 
-export function generateNoteFilename(payload: NotePayload): string {
-  const date = new Date(payload.timestamp);
-  const dateStr = date.toISOString().slice(0, 10); // YYYY-MM-DD
-  const timeStr = date.toISOString().slice(11, 19).replace(/:/g, ''); // HHmmss
-  const idShort = payload.note_id.slice(0, 8);
-  return `note-${dateStr}-${timeStr}-${idShort}.md`;
+export function generateNoteFilename(payload: NotePayload, pattern: string = DEFAULT_NOTE_PATTERN): string {
+  return ensureExtension(renderFilenamePattern(pattern, noteFilenameContext(payload)), '.md');
 }
 
 function capitalizeFirst(str: string): string {
@@ -196,6 +428,7 @@ export function generateNoteMarkdown(payload: NotePayload, projectName: string):
     }
     lines.push(`**Created:** ${formatDateTime(payload.timestamp)}`);
     lines.push(`**Device:** ${payload.metadata.device} (iOS ${payload.metadata.ios_version})`);
+    lines.push(`**Note ID:** ${payload.note_id}`);
   } else {
     // Note format
     const title = payload.title || 'Quick Note';
@@ -204,6 +437,7 @@ export function generateNoteMarkdown(payload: NotePayload, projectName: string):
     lines.push(`**Project:** ${projectName}`);
     lines.push(`**Created:** ${formatDateTime(payload.timestamp)}`);
     lines.push(`**Device:** ${payload.metadata.device} (iOS ${payload.metadata.ios_version})`);
+    lines.push(`**Note ID:** ${payload.note_id}`);
   }
 
   lines.push('');
@@ -218,8 +452,104 @@ export function generateNoteMarkdown(payload: NotePayload, projectName: string):
   return lines.join('\n');
 }
 
+const NOTE_BODY_SEPARATOR = '\n\n---\n\n';
+const NOTE_FOOTER = NOTE_BODY_SEPARATOR + '*Exported via Claude Traveller*';
+
+export interface ParsedNote {
+  type: NotePayload['type'];
+  title: string;
+  completed?: boolean;
+  priority?: NotePriority;
+  content: string;
+  note_id?: string;       // Missing in notes saved before the header line was added
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Parse a note or todo written by generateNoteMarkdown.
+ * Todos are recognised by the "# [ ]" / "# [x]" checkbox header.
+ */
+export function parseNoteMarkdown(markdown: string): ParsedNote {
+  const headerEnd = markdown.indexOf(NOTE_BODY_SEPARATOR);
+  const header = headerEnd === -1 ? markdown : markdown.slice(0, headerEnd);
+  const footerStart = markdown.lastIndexOf(NOTE_FOOTER);
+  const bodyStart = headerEnd === -1 ? markdown.length : headerEnd + NOTE_BODY_SEPARATOR.length;
+  const bodyEnd = footerStart >= bodyStart ? footerStart : markdown.length;
+
+  const headerLines = header.split('\n');
+  const titleLine = headerLines[0] || '';
+  const todoMatch = titleLine.match(/^# \[( |x)\] (.*)$/);
+  const headerValue = (label: string) =>
+    headerLines.find((line) => line.startsWith(`**${label}:**`))?.slice(label.length + 5).trim();
+  const priority = headerValue('Priority')?.toLowerCase();
+  const noteId = headerValue('Note ID');
+  const createdAt = parseDateTime(headerValue('Created'));
+  const updatedAt = parseDateTime(headerValue('Updated'));
+
+  return {
+    type: todoMatch ? 'todo' : 'note',
+    title: todoMatch ? todoMatch[2] : titleLine.replace(/^# /, ''),
+    ...(todoMatch && { completed: todoMatch[1] === 'x' }),
+    ...((priority === 'low' || priority === 'medium' || priority === 'high') && { priority }),
+    content: markdown.slice(bodyStart, bodyEnd),
+    ...(noteId && { note_id: noteId }),
+    ...(createdAt && { created_at: createdAt }),
+    ...(updatedAt && { updated_at: updatedAt }),
+  };
+}
+
+/**
+ * Apply an edit to an existing note file in place. Only the header line,
+ * priority, updated time and body change; everything else is kept verbatim.
+ */
+export function updateNoteMarkdown(markdown: string, update: NoteUpdatePayload): string {
+  const parsed = parseNoteMarkdown(markdown);
+  const headerEnd = markdown.indexOf(NOTE_BODY_SEPARATOR);
+  const headerLines = (headerEnd === -1 ? markdown : markdown.slice(0, headerEnd)).split('\n');
+  const footerStart = markdown.lastIndexOf(NOTE_FOOTER);
+  const footer = footerStart !== -1 && footerStart >= headerEnd ? markdown.slice(footerStart) : NOTE_FOOTER;
+
+  const title = update.title ?? parsed.title;
+  if (parsed.type === 'todo') {
+    const completed = update.completed ?? parsed.completed;
+    headerLines[0] = `# ${completed ? '[x]' : '[ ]'} ${title}`;
+  } else {
+    headerLines[0] = `# ${title}`;
+  }
+
+  if (update.priority !== undefined) {
+    const priorityIndex = headerLines.findIndex((line) => line.startsWith('**Priority:**'));
+    if (update.priority === null) {
+      if (priorityIndex !== -1) {
+        headerLines.splice(priorityIndex, 1);
+      }
+    } else {
+      const priorityLine = `**Priority:** ${capitalizeFirst(update.priority)}`;
+      if (priorityIndex !== -1) {
+        headerLines[priorityIndex] = priorityLine;
+      } else {
+        const projectIndex = headerLines.findIndex((line) => line.startsWith('**Project:**'));
+        headerLines.splice(projectIndex + 1, 0, priorityLine);
+      }
+    }
+  }
+
+  const updatedLine = `**Updated:** ${formatDateTime(update.timestamp || new Date().toISOString())}`;
+  const updatedIndex = headerLines.findIndex((line) => line.startsWith('**Updated:**'));
+  if (updatedIndex !== -1) {
+    headerLines[updatedIndex] = updatedLine;
+  } else {
+    const createdIndex = headerLines.findIndex((line) => line.startsWith('**Created:**'));
+    headerLines.splice(createdIndex === -1 ? headerLines.length : createdIndex + 1, 0, updatedLine);
+  }
+
+  const content = update.content ?? parsed.content;
+  return headerLines.join('\n') + NOTE_BODY_SEPARATOR + content + footer;
+}
+
 export interface NoteSaveResult {
-  action: 'created';
+  action: 'created' | 'updated';
   file: string;
   path: string;
   type: NotePayload['type'];
@@ -228,24 +558,34 @@ export interface NoteSaveResult {
 export function saveNote(
   payload: NotePayload,
   project: ProjectConfig,
-  createDirectories: boolean
+  exportConfig: ExportConfig,
+  existingFilePath: string | null = null
 ): NoteSaveResult {
+  // A note_id that was already saved rewrites its existing file instead of creating another
+  if (existingFilePath && fs.existsSync(existingFilePath)) {
+    fs.writeFileSync(existingFilePath, generateNoteMarkdown(payload, project.name), 'utf-8');
+    return {
+      action: 'updated',
+      file: path.basename(existingFilePath),
+      path: existingFilePath,
+      type: payload.type,
+    };
+  }
+
   const projectPath = resolvePath(project.path);
 
   // Ensure project directory exists if configured
-  if (createDirectories && !fs.existsSync(projectPath)) {
+  if (exportConfig.create_directories && !fs.existsSync(projectPath)) {
     fs.mkdirSync(projectPath, { recursive: true });
   }
 
-  const filename = generateNoteFilename(payload);
-  const filePath = path.join(projectPath, filename);
-  const content = generateNoteMarkdown(payload, project.name);
-  fs.writeFileSync(filePath, content, 'utf-8');
+  const filename = generateNoteFilename(payload, resolveNotePattern(project, exportConfig));
+  const created = writeNewFile(project, filename, generateNoteMarkdown(payload, project.name));
 
   return {
     action: 'created',
-    file: filename,
-    path: filePath,
+    file: created.file,
+    path: created.path,
     type: payload.type,
   };
 }
@@ -0,0 +1,489 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as readline from 'readline';
+import {
+  Config,
+  InputRequestPayload,
+  InputRequestResponse,
+  InputRequestErrorResponse,
+  NotePayload,
+  NoteSuccessResponse,
+  NoteType,
+  NotePriority,
+  ErrorResponse,
+  TaskCompleteRequestPayload,
+  TaskCompleteResponse,
+} from './types';
+import { getNotesStore, loadProjectBrief } from './config';
+import { parseNoteMarkdown } from './markdown';
+import { listNotes } from './notes';
+import { requestListener } from './client';
+import { MAX_INPUT_TIMEOUT_SECONDS } from './monitoring';
+
+// Model Context Protocol (JSON-RPC 2.0) server exposing the phone as tools.
+// Used over stdio by `tt mcp` and over HTTP by the listener's /mcp route.
+
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+const DEFAULT_NOTES_LIMIT = 20;
+const MAX_NOTES_LIMIT = 100;
+
+const JSONRPC_PARSE_ERROR = -32700;
+const JSONRPC_INVALID_REQUEST = -32600;
+const JSONRPC_METHOD_NOT_FOUND = -32601;
+const JSONRPC_INVALID_PARAMS = -32602;
+const JSONRPC_INTERNAL_ERROR = -32603;
+
+type JsonRpcId = string | number | null;
+
+interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: JsonRpcId;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+interface ToolResult {
+  content: Array<{ type: 'text'; text: string }>;
+  isError?: boolean;
+}
+
+interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+}
+
+/**
+ * How tools reach the listener. The HTTP route calls the monitoring manager
+ * directly; the stdio server proxies through the running listener's API.
+ */
+export interface McpBackend {
+  askMobileUser(payload: InputRequestPayload): Promise<string>;
+  notifyTaskComplete(payload: TaskCompleteRequestPayload): Promise<number>;
+  saveNote(payload: NotePayload): Promise<NoteSuccessResponse>;
+}
+
+// Raised for bad tool names or arguments
+class ToolInputError extends Error {}
+
+const TOOLS: ToolDefinition[] = [
+  {
+    name: 'ask_mobile_user',
+    description:
+      'Ask the user a question on their phone and wait for the reply. ' +
+      'Use when you need a decision or information and the user may be away from the computer.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        prompt: { type: 'string', description: 'Question to show on the phone' },
+        options: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Choices to offer; omit for a free text answer',
+        },
+        input_type: { type: 'string', enum: ['numeric', 'yesno', 'text'] },
+        project_tag: { type: 'string', description: 'Project the question is about' },
+        timeout_seconds: {
+          type: 'number',
+          exclusiveMinimum: 0,
+          maximum: MAX_INPUT_TIMEOUT_SECONDS,
+          description: 'How long to wait for an answer',
+        },
+      },
+      required: ['prompt'],
+    },
+  },
+  {
+    name: 'notify_task_complete',
+    description: 'Tell the user on their phone that a task has finished.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        summary: { type: 'string', description: 'One or two sentences on what was done' },
+        project_tag: { type: 'string' },
+      },
+    },
+  },
+  {
+    name: 'read_project_brief',
+    description: "Read a project's PROJECT_BRIEF.md, the context the user shares with the mobile app.",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        project_tag: { type: 'string' },
+      },
+    },
+  },
+  {
+    name: 'list_mobile_notes',
+    description: 'List notes and todos the user captured on their phone, newest first, with their content.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        project_tag: { type: 'string' },
+        type: { type: 'string', enum: ['note', 'todo'] },
+        completed: { type: 'boolean', description: 'Only todos that are (or are not) done' },
+        limit: { type: 'number', description: `Maximum notes to return (default ${DEFAULT_NOTES_LIMIT})` },
+      },
+    },
+  },
+  {
+    name: 'save_note',
+    description: 'Save a note or todo to a project so it shows up alongside notes from the phone.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        content: { type: 'string' },
+        title: { type: 'string' },
+        type: { type: 'string', enum: ['note', 'todo'] },
+        priority: { type: 'string', enum: ['low', 'medium', 'high'] },
+        project_tag: { type: 'string' },
+      },
+      required: ['content'],
+    },
+  },
+];
+
+function textResult(text: string, isError: boolean = false): ToolResult {
+  return { content: [{ type: 'text', text }], ...(isError && { isError }) };
+}
+
+function optionalString(args: Record<string, unknown>, name: string): string | undefined {
+  const value = args[name];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new ToolInputError(`${name} must be a string`);
+  }
+  return value;
+}
+
+function requiredString(args: Record<string, unknown>, name: string): string {
+  const value = optionalString(args, name);
+  if (!value) {
+    throw new ToolInputError(`Missing required argument: ${name}`);
+  }
+  return value;
+}
+
+function optionalEnum<T extends string>(args: Record<string, unknown>, name: string, values: readonly T[]): T | undefined {
+  const value = optionalString(args, name);
+  if (value !== undefined && !values.includes(value as T)) {
+    throw new ToolInputError(`${name} must be one of: ${values.join(', ')}`);
+  }
+  return value as T | undefined;
+}
+
+function errorResponse(id: JsonRpcId, code: number, message: string): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: { code, message } };
+}
+
+export class McpServer {
+  private config: Config;
+  private backend: McpBackend;
+  private defaultProjectTag?: string;
+  private version: string;
+
+  constructor(config: Config, backend: McpBackend, version: string, defaultProjectTag?: string) {
+    this.config = config;
+    this.backend = backend;
+    this.version = version;
+    this.defaultProjectTag = defaultProjectTag;
+  }
+
+  /**
+   * Handle one JSON-RPC message. Returns null for notifications and for
+   * responses from the client, which need no reply.
+   */
+  async handleMessage(message: unknown): Promise<JsonRpcResponse | null> {
+    if (!message || typeof message !== 'object' || Array.isArray(message)) {
+      return errorResponse(null, JSONRPC_INVALID_REQUEST, 'Invalid request');
+    }
+
+    const request = message as JsonRpcRequest;
+    if (typeof request.method !== 'string') {
+      // A response to a server-initiated request; we never send any
+      return 'id' in request ? null : errorResponse(null, JSONRPC_INVALID_REQUEST, 'Invalid request');
+    }
+
+    const isNotification = request.id === undefined;
+    const id = request.id ?? null;
+
+    try {
+      const result = await this.dispatch(request.method, request.params || {});
+      return isNotification ? null : { jsonrpc: '2.0', id, result };
+    } catch (err) {
+      if (isNotification) {
+        return null;
+      }
+      if (err instanceof ToolInputError) {
+        return errorResponse(id, JSONRPC_INVALID_PARAMS, err.message);
+      }
+      const code = (err as { code?: number }).code ?? JSONRPC_INTERNAL_ERROR;
+      return errorResponse(id, code, (err as Error).message);
+    }
+  }
+
+  private async dispatch(method: string, params: Record<string, unknown>): Promise<unknown> {
+    switch (method) {
+      case 'initialize': {
+        const requested = typeof params.protocolVersion === 'string' ? params.protocolVersion : '';
+        return {
+          protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : SUPPORTED_PROTOCOL_VERSIONS[0],
+          capabilities: { tools: {} },
+          serverInfo: { name: 'thought-traveller', version: this.version },
+          instructions:
+            'Reach the user on their phone: ask_mobile_user for decisions while they are away, ' +
+            'notify_task_complete when done, and list_mobile_notes for ideas they captured on the go.',
+        };
+      }
+      case 'ping':
+        return {};
+      case 'tools/list':
+        return { tools: TOOLS };
+      case 'tools/call': {
+        const name = params.name;
+        const args = (params.arguments || {}) as Record<string, unknown>;
+        if (typeof name !== 'string' || !TOOLS.some((tool) => tool.name === name)) {
+          throw new ToolInputError(`Unknown tool: ${String(name)}`);
+        }
+        return this.callTool(name, args);
+      }
+      default:
+        if (method.startsWith('notifications/')) {
+          return {};
+        }
+        throw Object.assign(new Error(`Method not found: ${method}`), { code: JSONRPC_METHOD_NOT_FOUND });
+    }
+  }
+
+  private async callTool(name: string, args: Record<string, unknown>): Promise<ToolResult> {
+    try {
+      switch (name) {
+        case 'ask_mobile_user':
+          return await this.askMobileUser(args);
+        case 'notify_task_complete':
+          return await this.notifyTaskComplete(args);
+        case 'read_project_brief':
+          return this.readProjectBrief(args);
+        case 'list_mobile_notes':
+          return this.listMobileNotes(args);
+        default:
+          return await this.saveNote(args);
+      }
+    } catch (err) {
+      // Reported as tool errors so the model can correct its arguments or
+      // react to failures (no phone connected, timeout...)
+      return textResult((err as Error).message, true);
+    }
+  }
+
+  private projectTag(args: Record<string, unknown>): string | undefined {
+    return optionalString(args, 'project_tag') || this.defaultProjectTag;
+  }
+
+  private requireProject(args: Record<string, unknown>) {
+    const tag = this.projectTag(args);
+    if (!tag) {
+      throw new ToolInputError(
+        `Missing required argument: project_tag (configured: ${this.config.projects.map((p) => p.tag).join(', ')})`
+      );
+    }
+    const project = this.config.projects.find((p) => p.tag === tag);
+    if (!project) {
+      throw new ToolInputError(`Unknown project tag: ${tag}`);
+    }
+    return project;
+  }
+
+  private async askMobileUser(args: Record<string, unknown>): Promise<ToolResult> {
+    const options = args.options;
+    if (options !== undefined && (!Array.isArray(options) || options.some((o) => typeof o !== 'string'))) {
+      throw new ToolInputError('options must be an array of strings');
+    }
+    const timeoutSeconds = args.timeout_seconds;
+    if (timeoutSeconds !== undefined && (typeof timeoutSeconds !== 'number' || timeoutSeconds <= 0)) {
+      throw new ToolInputError('timeout_seconds must be a positive number');
+    }
+    if (timeoutSeconds !== undefined && timeoutSeconds > MAX_INPUT_TIMEOUT_SECONDS) {
+      throw new ToolInputError(`timeout_seconds must be at most ${MAX_INPUT_TIMEOUT_SECONDS}`);
+    }
+
+    const response = await this.backend.askMobileUser({
+      prompt: requiredString(args, 'prompt'),
+      options: options as string[] | undefined,
+      input_type: optionalEnum(args, 'input_type', ['numeric', 'yesno', 'text'] as const),
+      project_tag: this.projectTag(args),
+      timeout_seconds: timeoutSeconds as number | undefined,
+    });
+    return textResult(response);
+  }
+
+  private async notifyTaskComplete(args: Record<string, unknown>): Promise<ToolResult> {
+    const notified = await this.backend.notifyTaskComplete({
+      project_tag: this.projectTag(args),
+      summary: optionalString(args, 'summary'),
+    });
+    return textResult(
+      notified > 0 ? `Notified ${notified} device(s)` : 'No devices are monitoring; the notification was not delivered'
+    );
+  }
+
+  private readProjectBrief(args: Record<string, unknown>): ToolResult {
+    const project = this.requireProject(args);
+    if (!project.briefFile) {
+      return textResult(`Brief not configured for project: ${project.tag}`, true);
+    }
+    const brief = loadProjectBrief(project);
+    if (!brief) {
+      return textResult(`Brief file not found for project: ${project.tag} (${project.briefFile})`, true);
+    }
+    return textResult(brief.content);
+  }
+
+  private listMobileNotes(args: Record<string, unknown>): ToolResult {
+    const completed = args.completed;
+    if (completed !== undefined && typeof completed !== 'boolean') {
+      throw new ToolInputError('completed must be a boolean');
+    }
+    const limit = args.limit === undefined ? DEFAULT_NOTES_LIMIT : Number(args.limit);
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new ToolInputError('limit must be a positive integer');
+    }
+
+    const store = getNotesStore();
+    const page = listNotes(
+      store,
+      {
+        project: this.projectTag(args),
+        type: optionalEnum<NoteType>(args, 'type', ['note', 'todo']),
+        completed: completed as boolean | undefined,
+      },
+      Math.min(limit, MAX_NOTES_LIMIT),
+      0
+    );
+
+    // The files are the source of truth; they may have been edited on the desktop
+    const notes = page.items.map((summary) => {
+      const filePath = store.get(summary.note_id)?.file_path;
+      if (!filePath || !fs.existsSync(filePath)) {
+        return summary;
+      }
+      const parsed = parseNoteMarkdown(fs.readFileSync(filePath, 'utf-8'));
+      return {
+        ...summary,
+        title: parsed.title,
+        ...(parsed.completed !== undefined && { completed: parsed.completed }),
+        content: parsed.content,
+      };
+    });
+
+    return textResult(JSON.stringify({ notes, total: page.total }, null, 2));
+  }
+
+  private async saveNote(args: Record<string, unknown>): Promise<ToolResult> {
+    const project = this.requireProject(args);
+    const type = optionalEnum<NoteType>(args, 'type', ['note', 'todo']) || 'note';
+
+    const result = await this.backend.saveNote({
+      version: '1.0',
+      note_id: crypto.randomUUID(),
+      type,
+      project_tag: project.tag,
+      title: optionalString(args, 'title'),
+      content: requiredString(args, 'content'),
+      timestamp: new Date().toISOString(),
+      priority: optionalEnum<NotePriority>(args, 'priority', ['low', 'medium', 'high']),
+      ...(type === 'todo' && { completed: false }),
+      metadata: {
+        device: 'MCP client',
+        app_version: this.version,
+        ios_version: '',
+      },
+    });
+    return textResult(`Saved ${type}: ${result.path}`);
+  }
+}
+
+/**
+ * Backend for the stdio server: a separate process, so everything that needs
+ * connected devices goes through the running listener's HTTP API.
+ */
+export function createListenerBackend(config: Config): McpBackend {
+  const unreachable = (err: Error) =>
+    new Error(`Thought Traveller listener is not reachable on port ${config.listener.port} (${err.message})`);
+
+  return {
+    async askMobileUser(payload) {
+      const { data } = await requestListener<InputRequestResponse | InputRequestErrorResponse>(
+        config,
+        'POST',
+        '/input-request',
+        payload
+      ).catch((err) => Promise.reject(unreachable(err)));
+      if (!data.success) {
+        throw new Error(data.error);
+      }
+      return data.response;
+    },
+
+    async notifyTaskComplete(payload) {
+      const { data } = await requestListener<TaskCompleteResponse>(config, 'POST', '/task-complete', payload)
+        .catch((err) => Promise.reject(unreachable(err)));
+      return data.notified_devices || 0;
+    },
+
+    async saveNote(payload) {
+      const { status, data } = await requestListener<NoteSuccessResponse | ErrorResponse>(config, 'POST', '/note', payload)
+        .catch((err) => Promise.reject(unreachable(err)));
+      if (status >= 400 || !('success' in data)) {
+        const error = data as ErrorResponse;
+        throw new Error(error.details ? `${error.error}: ${error.details}` : error.error);
+      }
+      return data;
+    },
+  };
+}
+
+/**
+ * Serve MCP over stdio: newline-delimited JSON-RPC on stdin/stdout.
+ * Requests are handled concurrently so a long ask_mobile_user doesn't block pings.
+ * Resolves when stdin closes.
+ */
+export function serveStdio(server: McpServer): Promise<void> {
+  const write = (response: JsonRpcResponse | null) => {
+    if (response) {
+      process.stdout.write(JSON.stringify(response) + '\n');
+    }
+  };
+
+  return new Promise((resolve) => {
+    const rl = readline.createInterface({ input: process.stdin, terminal: false });
+
+    rl.on('line', (line) => {
+      if (!line.trim()) {
+        return;
+      }
+
+      let message: unknown;
+      try {
+        message = JSON.parse(line);
+      } catch {
+        write(errorResponse(null, JSONRPC_PARSE_ERROR, 'Parse error'));
+        return;
+      }
+
+      server.handleMessage(message).then(write);
+    });
+
+    rl.on('close', () => resolve());
+  });
+}
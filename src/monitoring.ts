@@ -1,7 +1,8 @@
 import { WebSocket, WebSocketServer } from 'ws';
 import { Server } from 'http';
 import { Server as HttpsServer } from 'https';
-import { IncomingMessage } from 'http';
+import { IncomingMessage, STATUS_CODES } from 'http';
+import { Duplex } from 'stream';
 import { URL } from 'url';
 import * as apn from '@parse/node-apn';
 import {
@@ -13,12 +14,28 @@ import {
   InputResponsePayload,
   Config,
   ApnsConfig,
+  InputRequestRecord,
+  InputRequestStatus,
+  InputRequestStatusResponse,
+  PermissionDecision,
+  PermissionDetails,
+  PermissionRequestMessagePayload,
+  PermissionResponsePayload,
+  AuthIdentity,
 } from './types';
-import { getLogger } from './logger';
+import { getLogger, redactContent, redactSecret } from './logger';
+import { authenticateToken, getUpgradeToken, MONITOR_SUBPROTOCOL } from './auth';
+import { checkRateLimit, normalizeIp, recordAuthFailure, recordAuthSuccess } from './rate-limit';
+import { loadInputRequests, saveInputRequests } from './config';
+import { PERMISSION_DECISIONS } from './permissions';
 
 const HEARTBEAT_INTERVAL = 30000; // 30 seconds
 const SESSION_TIMEOUT = 300000; // 5 minutes - keep session for reconnection
 const DEFAULT_INPUT_TIMEOUT_MINUTES = 30; // 30 minutes default
+const COMPLETED_REQUEST_RETENTION = 24 * 60 * 60 * 1000; // Keep answers for 24 hours
+const CALLBACK_TIMEOUT = 10000; // 10 seconds
+export const MAX_INPUT_TIMEOUT_SECONDS = 24 * 60 * 60; // Longest a request may wait for an answer
+const MAX_TIMER_DELAY = 2 ** 31 - 1; // setTimeout fires at once past this
 
 // Input detection patterns for common Claude prompts
 const INPUT_PATTERNS = [
@@ -32,12 +49,42 @@ const INPUT_PATTERNS = [
   { pattern: /which.*?option/i, type: 'numeric' as const },
 ];
 
+// Answer a refused upgrade with a real HTTP response so clients see why
+function rejectUpgrade(socket: Duplex, status: number, error: string, headers: Record<string, string> = {}): void {
+  const body = JSON.stringify({ error });
+  const lines = [
+    `HTTP/1.1 ${status} ${STATUS_CODES[status]}`,
+    'Connection: close',
+    'Content-Type: application/json',
+    `Content-Length: ${Buffer.byteLength(body)}`,
+    ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+  ];
+  socket.once('finish', () => socket.destroy());
+  socket.end(`${lines.join('\r\n')}\r\n\r\n${body}`);
+}
+
 interface ConnectedClient {
   ws: WebSocket;
   session: MonitoringSession;
   isAlive: boolean;
 }
 
+interface InputWaiter {
+  resolve: (response: string) => void;
+  reject: (error: Error) => void;
+}
+
+export interface StartInputRequestOptions {
+  projectTag: string;
+  prompt: string;
+  options: string[];
+  inputType?: 'numeric' | 'yesno' | 'text';
+  timeoutMs?: number;
+  idempotencyKey?: string;
+  callbackUrl?: string;
+  permission?: PermissionDetails; // Sent as a permission_request instead of input_required
+}
+
 interface PendingInputRequest {
   requestId: string;
   sessionId: string;
@@ -45,9 +92,12 @@ interface PendingInputRequest {
   prompt: string;
   options: string[];
   inputType: 'numeric' | 'yesno' | 'text';
+  idempotencyKey?: string;
+  callbackUrl?: string; // Local URL notified when the request completes
+  permission?: PermissionDetails;
   createdAt: Date;
-  resolve: (response: string) => void;
-  reject: (error: Error) => void;
+  deadline: Date;
+  waiters: InputWaiter[]; // HTTP requests blocked on this input; empty after a restart
   timeoutId: NodeJS.Timeout;
   notifiedDevices: Set<string>; // Track which devices have been notified
   pushedViaApns: Set<string>; // Track which devices received APNs push
@@ -57,6 +107,8 @@ class MonitoringManager {
   private wss: WebSocketServer | null = null;
   private clients: Map<string, ConnectedClient> = new Map();
   private pendingRequests: Map<string, PendingInputRequest> = new Map();
+  // Answered, expired and cancelled requests, kept so re-issued requests can be matched
+  private completedRequests: Map<string, InputRequestRecord> = new Map();
   private heartbeatInterval: NodeJS.Timeout | null = null;
   private config: Config | null = null;
   private apnsProvider: apn.Provider | null = null;
@@ -78,32 +130,59 @@ class MonitoringManager {
     // Initialize APNs provider if configured
     this.initializeApns(config.monitoring?.apns);
 
-    this.wss = new WebSocketServer({ noServer: true });
+    // Restore input requests that were outstanding when the listener last stopped
+    this.restoreInputRequests();
+
+    this.wss = new WebSocketServer({
+      noServer: true,
+      // Echo our own subprotocol when offered; the token subprotocol is never selected
+      handleProtocols: (protocols) => (protocols.has(MONITOR_SUBPROTOCOL) ? MONITOR_SUBPROTOCOL : false),
+    });
 
     // Handle upgrade requests
-    server.on('upgrade', (request: IncomingMessage, socket, head) => {
-      const url = new URL(request.url || '', `http://${request.headers.host}`);
-      
-      if (url.pathname === '/monitor') {
-        // Verify auth token from query string
-        const token = url.searchParams.get('token');
-        if (!token || token !== config.listener.auth_token) {
-          logger.warn('Monitoring connection rejected: invalid token');
-          socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
-          socket.destroy();
+    server.on('upgrade', (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+      try {
+        // Only the path matters here, so don't trust the Host header to build the URL
+        const url = new URL(request.url || '/', 'http://localhost');
+
+        if (url.pathname !== '/monitor') {
+          rejectUpgrade(socket, 404, 'Not found');
           return;
         }
 
+        const ip = normalizeIp(request.socket.remoteAddress);
+        const limit = checkRateLimit(ip);
+        if (!limit.allowed) {
+          rejectUpgrade(socket, 429, 'Too many requests', { 'Retry-After': String(limit.retry_after) });
+          return;
+        }
+
+        // Same token check as authMiddleware; a device token identifies the phone
+        const credential = getUpgradeToken(request, url);
+        const identity = credential ? authenticateToken(credential.token, config, ip) : null;
+        if (!identity) {
+          logger.warn(`Monitoring connection rejected: invalid token from ${ip}`);
+          recordAuthFailure(ip);
+          rejectUpgrade(socket, 401, 'Invalid or missing auth token', { 'WWW-Authenticate': 'Bearer' });
+          return;
+        }
+        recordAuthSuccess(ip);
+        if (credential!.source === 'query') {
+          logger.warn('Monitoring client sent its token in the query string; use an Authorization header or subprotocol instead');
+        }
+
         this.wss!.handleUpgrade(request, socket, head, (ws) => {
-          this.wss!.emit('connection', ws, request);
+          this.wss!.emit('connection', ws, request, identity);
         });
-      } else {
+      } catch (err) {
+        // A malformed upgrade must not take the listener down with it
+        logger.error('Monitoring upgrade failed', { error: (err as Error).message });
         socket.destroy();
       }
     });
 
-    this.wss.on('connection', (ws: WebSocket, request: IncomingMessage) => {
-      this.handleConnection(ws, request);
+    this.wss.on('connection', (ws: WebSocket, request: IncomingMessage, identity: AuthIdentity) => {
+      this.handleConnection(ws, request, identity);
     });
 
     // Start heartbeat interval
@@ -142,7 +221,11 @@ class MonitoringManager {
     }
   }
 
-  private async sendApnsPush(deviceToken: string, payload: InputRequiredPayload): Promise<boolean> {
+  private async sendApnsPush(
+    deviceToken: string,
+    payload: InputRequiredPayload,
+    requestType: 'input' | 'permission' = 'input'
+  ): Promise<boolean> {
     const logger = getLogger();
 
     if (!this.apnsProvider || !this.config?.monitoring?.apns?.bundle_id) {
@@ -154,7 +237,7 @@ class MonitoringManager {
     notification.badge = 1;
     notification.sound = 'default';
     notification.alert = {
-      title: 'Claude Needs Input',
+      title: requestType === 'permission' ? 'Claude Needs Permission' : 'Claude Needs Input',
       body: payload.prompt,
     };
     notification.topic = this.config.monitoring.apns.bundle_id;
@@ -163,6 +246,7 @@ class MonitoringManager {
       projectTag: payload.projectTag,
       options: payload.options,
       inputType: payload.inputType,
+      requestType,
     };
     notification.pushType = 'alert';
 
@@ -170,12 +254,12 @@ class MonitoringManager {
       const result = await this.apnsProvider.send(notification, deviceToken);
       if (result.failed.length > 0) {
         logger.warn('APNs push failed', {
-          deviceToken: deviceToken.substring(0, 8) + '...',
+          deviceToken,
           reason: result.failed[0]?.response?.reason
         });
         return false;
       }
-      logger.info(`APNs push sent to device ${deviceToken.substring(0, 8)}...`);
+      logger.info(`APNs push sent to device ${redactSecret(deviceToken)}`);
       return true;
     } catch (err) {
       logger.error('APNs send error', { error: (err as Error).message });
@@ -183,14 +267,17 @@ class MonitoringManager {
     }
   }
 
-  private handleConnection(ws: WebSocket, request: IncomingMessage): void {
+  private handleConnection(ws: WebSocket, request: IncomingMessage, identity: AuthIdentity): void {
     const logger = getLogger();
-    const url = new URL(request.url || '', `http://${request.headers.host}`);
-    const deviceId = url.searchParams.get('deviceId') || 'unknown';
-    const deviceName = url.searchParams.get('deviceName') || 'Unknown Device';
+    const url = new URL(request.url || '/', 'http://localhost');
+    // With a device token the identity comes from the registry; the shared
+    // token only has the self-reported query parameters to go on
+    const verified = identity.kind === 'device';
+    const deviceId = verified ? identity.device.id : url.searchParams.get('deviceId') || 'unknown';
+    const deviceName = verified ? identity.device.name : url.searchParams.get('deviceName') || 'Unknown Device';
     const apnsToken = url.searchParams.get('apnsToken') || undefined;
 
-    logger.info(`Monitoring connection from: ${deviceName} (${deviceId})${apnsToken ? ' with APNs token' : ''}`);
+    logger.info(`Monitoring connection from: ${deviceName} (${deviceId}, ${verified ? 'verified' : 'unverified'})${apnsToken ? ' with APNs token' : ''}`);
 
     // Store APNs token for this device (persists across reconnects)
     if (apnsToken) {
@@ -200,6 +287,7 @@ class MonitoringManager {
     const session: MonitoringSession = {
       deviceId,
       deviceName,
+      verified,
       apnsToken,
       startTime: new Date(),
       lastSeen: new Date(),
@@ -309,9 +397,9 @@ class MonitoringManager {
 
     switch (message.type) {
       case 'handshake':
-        // Update device info from handshake
+        // Update device info from handshake; a verified device keeps its registered name
         const handshake = message.payload as unknown as HandshakePayload;
-        if (handshake) {
+        if (handshake && !client.session.verified) {
           client.session.deviceName = handshake.deviceName || client.session.deviceName;
         }
         break;
@@ -332,6 +420,15 @@ class MonitoringManager {
         }
         break;
 
+      case 'permission_response':
+        const permissionResponse = message.payload as unknown as PermissionResponsePayload;
+        if (permissionResponse?.sessionId) {
+          this.handleInputResponse(permissionResponse.sessionId, permissionResponse.decision, client.session.deviceName);
+        } else {
+          logger.warn('Permission response missing sessionId');
+        }
+        break;
+
       default:
         logger.debug(`Unknown message type: ${message.type}`);
     }
@@ -352,38 +449,234 @@ class MonitoringManager {
       return;
     }
 
-    logger.info(`Input response received from ${deviceName} for session ${sessionId}: "${response}"`);
+    if (pendingRequest.permission && !PERMISSION_DECISIONS.includes(response as PermissionDecision)) {
+      logger.warn(`Invalid permission decision from ${deviceName} for session ${sessionId}: ${redactContent(response)}`);
+      return;
+    }
+
+    logger.info(`Input response received from ${deviceName} for session ${sessionId}: ${redactContent(response)}`, { project: pendingRequest.projectTag });
 
-    // Clear timeout and resolve the promise
+    // Clear timeout and keep the answer in case the request is re-issued after a restart
     clearTimeout(pendingRequest.timeoutId);
     this.pendingRequests.delete(sessionId);
-    pendingRequest.resolve(response);
+    this.completeRequest(pendingRequest, 'answered', { response, respondedBy: deviceName });
+
+    if (pendingRequest.waiters.length === 0) {
+      logger.info(`Stored answer for session ${sessionId} (no waiting caller)`);
+    }
+    pendingRequest.waiters.forEach((waiter) => waiter.resolve(response));
+  }
+
+  private toRecord(request: PendingInputRequest, status: InputRequestStatus): InputRequestRecord {
+    return {
+      requestId: request.requestId,
+      sessionId: request.sessionId,
+      projectTag: request.projectTag,
+      prompt: request.prompt,
+      options: request.options,
+      inputType: request.inputType,
+      ...(request.idempotencyKey && { idempotencyKey: request.idempotencyKey }),
+      ...(request.callbackUrl && { callbackUrl: request.callbackUrl }),
+      ...(request.permission && { permission: request.permission }),
+      createdAt: request.createdAt.toISOString(),
+      deadline: request.deadline.toISOString(),
+      notifiedDevices: Array.from(request.notifiedDevices),
+      pushedViaApns: Array.from(request.pushedViaApns),
+      status,
+    };
+  }
+
+  private completeRequest(
+    request: PendingInputRequest,
+    status: Exclude<InputRequestStatus, 'pending'>,
+    answer?: { response: string; respondedBy: string }
+  ): void {
+    const record: InputRequestRecord = {
+      ...this.toRecord(request, status),
+      ...answer,
+      completedAt: new Date().toISOString(),
+    };
+    this.completedRequests.set(request.sessionId, record);
+    this.persistInputRequests();
+
+    if (record.callbackUrl) {
+      this.sendCompletionCallback(record);
+    }
+  }
+
+  private async sendCompletionCallback(record: InputRequestRecord): Promise<void> {
+    const logger = getLogger();
+    try {
+      const response = await fetch(record.callbackUrl!, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toInputRequestStatusResponse(record)),
+        signal: AbortSignal.timeout(CALLBACK_TIMEOUT),
+      });
+      if (!response.ok) {
+        logger.warn(`Input request callback returned ${response.status} for session ${record.sessionId}`);
+      }
+    } catch (err) {
+      logger.warn(`Input request callback failed for session ${record.sessionId}`, { error: (err as Error).message });
+    }
+  }
+
+  // Write pending and recently completed requests to the config dir
+  private persistInputRequests(): void {
+    const cutoff = Date.now() - COMPLETED_REQUEST_RETENTION;
+    this.completedRequests.forEach((record, sessionId) => {
+      if (new Date(record.completedAt || record.createdAt).getTime() < cutoff) {
+        this.completedRequests.delete(sessionId);
+      }
+    });
+
+    const records = [
+      ...Array.from(this.pendingRequests.values()).map((request) => this.toRecord(request, 'pending')),
+      ...this.completedRequests.values(),
+    ];
+
+    try {
+      saveInputRequests(records);
+    } catch (err) {
+      getLogger().error('Failed to persist input requests', { error: (err as Error).message });
+    }
+  }
+
+  private restoreInputRequests(): void {
+    const logger = getLogger();
+    let records: InputRequestRecord[];
+    try {
+      records = loadInputRequests();
+    } catch (err) {
+      logger.error('Failed to load persisted input requests', { error: (err as Error).message });
+      return;
+    }
+
+    let restored = 0;
+    for (const record of records) {
+      if (record.status !== 'pending') {
+        this.completedRequests.set(record.sessionId, record);
+        continue;
+      }
+
+      const deadline = new Date(record.deadline);
+      if (isNaN(deadline.getTime())) {
+        // Nothing to wait for; keep it as expired so a re-issue with its key starts afresh
+        logger.warn(`Dropping input request ${record.sessionId} with an invalid deadline`);
+        this.completedRequests.set(record.sessionId, { ...record, status: 'expired', completedAt: new Date().toISOString() });
+        continue;
+      }
+
+      const request: PendingInputRequest = {
+        requestId: record.requestId,
+        sessionId: record.sessionId,
+        projectTag: record.projectTag,
+        prompt: record.prompt,
+        options: record.options,
+        inputType: record.inputType,
+        idempotencyKey: record.idempotencyKey,
+        callbackUrl: record.callbackUrl,
+        permission: record.permission,
+        createdAt: new Date(record.createdAt),
+        deadline,
+        waiters: [],
+        timeoutId: this.scheduleExpiry(record.sessionId, deadline),
+        notifiedDevices: new Set(record.notifiedDevices),
+        pushedViaApns: new Set(record.pushedViaApns),
+      };
+      this.pendingRequests.set(record.sessionId, request);
+      restored++;
+    }
+
+    if (restored > 0) {
+      logger.info(`Restored ${restored} pending input request(s) from previous run`);
+    }
+    this.persistInputRequests();
+  }
+
+  // Timer for a request's deadline, re-armed in steps when it is further off than setTimeout allows
+  private scheduleExpiry(sessionId: string, deadline: Date): NodeJS.Timeout {
+    const remainingMs = Math.max(deadline.getTime() - Date.now(), 0);
+    return setTimeout(() => {
+      const request = this.pendingRequests.get(sessionId);
+      if (request && Date.now() < deadline.getTime()) {
+        request.timeoutId = this.scheduleExpiry(sessionId, deadline);
+        return;
+      }
+      this.expireRequest(sessionId);
+    }, Math.min(remainingMs, MAX_TIMER_DELAY));
+  }
+
+  private expireRequest(sessionId: string): void {
+    const request = this.pendingRequests.get(sessionId);
+    if (!request) {
+      return;
+    }
+    this.pendingRequests.delete(sessionId);
+    this.completeRequest(request, 'expired');
+
+    const timeoutSeconds = Math.round((request.deadline.getTime() - request.createdAt.getTime()) / 1000);
+    const error = new Error(`Mobile input request timed out after ${timeoutSeconds} seconds`);
+    request.waiters.forEach((waiter) => waiter.reject(error));
+  }
+
+  private findRequestByKey(idempotencyKey: string): PendingInputRequest | InputRequestRecord | undefined {
+    for (const request of this.pendingRequests.values()) {
+      if (request.idempotencyKey === idempotencyKey) {
+        return request;
+      }
+    }
+    for (const record of this.completedRequests.values()) {
+      if (record.idempotencyKey === idempotencyKey && record.status === 'answered') {
+        return record;
+      }
+    }
+    return undefined;
   }
 
   private resendPendingRequestsToDevice(deviceId: string, ws: WebSocket): void {
     const logger = getLogger();
 
     // Find pending requests that haven't been sent to this device yet
+    let resent = 0;
     this.pendingRequests.forEach((request) => {
       if (!request.notifiedDevices.has(deviceId)) {
-        const payload: InputRequiredPayload = {
-          sessionId: request.sessionId,
-          projectTag: request.projectTag,
-          prompt: request.prompt,
-          options: request.options,
-          inputType: request.inputType,
-        };
-
-        this.sendMessage(ws, {
-          type: 'input_required',
-          timestamp: new Date().toISOString(),
-          payload: payload as unknown as Record<string, unknown>,
-        });
+        this.sendMessage(ws, this.buildRequestMessage(request));
 
         request.notifiedDevices.add(deviceId);
+        resent++;
         logger.info(`Re-sent pending input request ${request.sessionId} to reconnected device ${deviceId}`);
       }
     });
+
+    if (resent > 0) {
+      this.persistInputRequests();
+    }
+  }
+
+  // Message announcing a pending request: permission_request for tool approvals, input_required otherwise
+  private buildRequestMessage(request: PendingInputRequest): MonitoringMessage {
+    const timestamp = new Date().toISOString();
+
+    if (request.permission) {
+      const payload: PermissionRequestMessagePayload = {
+        sessionId: request.sessionId,
+        projectTag: request.projectTag,
+        prompt: request.prompt,
+        options: PERMISSION_DECISIONS,
+        ...request.permission,
+      };
+      return { type: 'permission_request', timestamp, payload: payload as unknown as Record<string, unknown> };
+    }
+
+    const payload: InputRequiredPayload = {
+      sessionId: request.sessionId,
+      projectTag: request.projectTag,
+      prompt: request.prompt,
+      options: request.options,
+      inputType: request.inputType,
+    };
+    return { type: 'input_required', timestamp, payload: payload as unknown as Record<string, unknown> };
   }
 
   private checkHeartbeats(): void {
@@ -421,6 +714,19 @@ class MonitoringManager {
     return Array.from(this.clients.values()).map(c => ({ ...c.session }));
   }
 
+  // Drop a revoked device's connection and forget its push token
+  disconnectDevice(deviceId: string): boolean {
+    const client = this.clients.get(deviceId);
+    this.deviceApnsTokens.delete(deviceId);
+    if (!client) {
+      return false;
+    }
+    this.clients.delete(deviceId);
+    client.ws.close(4001, 'Device revoked');
+    getLogger().info(`Disconnected revoked device: ${client.session.deviceName} (${deviceId})`);
+    return true;
+  }
+
   // Request input from mobile device and wait for response
   // Returns a promise that resolves with the user's response or rejects on timeout/no devices
   async requestMobileInput(
@@ -428,10 +734,42 @@ class MonitoringManager {
     prompt: string,
     options: string[],
     inputType: 'numeric' | 'yesno' | 'text' = 'numeric',
-    timeoutMs?: number
+    timeoutMs?: number,
+    idempotencyKey?: string
   ): Promise<string> {
+    const { response } = this.startInputRequest({ projectTag, prompt, options, inputType, timeoutMs, idempotencyKey });
+    return response;
+  }
+
+  // Start an input request without waiting for it. The session ID can be polled with
+  // getInputRequestStatus; the callback URL (if any) is notified when the request completes.
+  // With an idempotency key, a request re-issued (e.g. after a listener restart) joins the
+  // original request, or gets its stored answer straight away if the phone already replied.
+  startInputRequest(request: StartInputRequestOptions): { sessionId: string; response: Promise<string> } {
     const logger = getLogger();
-    const effectiveTimeout = timeoutMs ?? this.inputTimeoutMs;
+    const { projectTag, prompt, options, timeoutMs, idempotencyKey, callbackUrl, permission } = request;
+    const inputType = request.inputType ?? 'numeric';
+
+    if (idempotencyKey) {
+      const existing = this.findRequestByKey(idempotencyKey);
+      if (existing && 'waiters' in existing) {
+        logger.info(`Input request re-issued for pending session ${existing.sessionId}`);
+        const response = new Promise<string>((resolve, reject) => {
+          existing.waiters.push({ resolve, reject });
+        });
+        return { sessionId: existing.sessionId, response };
+      }
+      if (existing && existing.response !== undefined) {
+        logger.info(`Input request re-issued for answered session ${existing.sessionId}, returning stored answer`);
+        return { sessionId: existing.sessionId, response: Promise.resolve(existing.response) };
+      }
+    }
+
+    let effectiveTimeout = timeoutMs ?? this.inputTimeoutMs;
+    if (!Number.isFinite(effectiveTimeout) || effectiveTimeout <= 0 || effectiveTimeout > MAX_INPUT_TIMEOUT_SECONDS * 1000) {
+      logger.warn(`Input timeout ${effectiveTimeout / 1000}s is out of range; using ${MAX_INPUT_TIMEOUT_SECONDS}s`);
+      effectiveTimeout = MAX_INPUT_TIMEOUT_SECONDS * 1000;
+    }
     const connectedCount = this.getConnectedDeviceCount();
     const hasApnsTokens = this.deviceApnsTokens.size > 0;
 
@@ -442,13 +780,11 @@ class MonitoringManager {
 
     // Generate unique session ID for this request
     const sessionId = `input_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    const createdAt = new Date();
 
-    return new Promise((resolve, reject) => {
+    const response = new Promise<string>((resolve, reject) => {
       // Set up timeout
-      const timeoutId = setTimeout(() => {
-        this.pendingRequests.delete(sessionId);
-        reject(new Error(`Mobile input request timed out after ${effectiveTimeout / 1000} seconds`));
-      }, effectiveTimeout);
+      const timeoutId = setTimeout(() => this.expireRequest(sessionId), effectiveTimeout);
 
       // Store pending request with tracking sets
       const pendingRequest: PendingInputRequest = {
@@ -458,9 +794,12 @@ class MonitoringManager {
         prompt,
         options,
         inputType,
-        createdAt: new Date(),
-        resolve,
-        reject,
+        idempotencyKey,
+        callbackUrl,
+        permission,
+        createdAt,
+        deadline: new Date(createdAt.getTime() + effectiveTimeout),
+        waiters: [{ resolve, reject }],
         timeoutId,
         notifiedDevices: new Set(),
         pushedViaApns: new Set(),
@@ -479,12 +818,25 @@ class MonitoringManager {
 
       // Send to connected devices via WebSocket
       this.notifyInputRequired(payload, pendingRequest);
+      this.persistInputRequests();
 
       // Send APNs push to disconnected devices with tokens
       this.sendApnsPushToDisconnectedDevices(payload, pendingRequest);
 
-      logger.info(`Mobile input requested: "${prompt}" (session: ${sessionId}, timeout: ${effectiveTimeout / 1000}s, connected: ${connectedCount}, apns tokens: ${this.deviceApnsTokens.size})`);
+      logger.info(`Mobile input requested: ${redactContent(prompt)} (session: ${sessionId}, timeout: ${effectiveTimeout / 1000}s, connected: ${connectedCount}, apns tokens: ${this.deviceApnsTokens.size})`, { project: projectTag });
     });
+
+    return { sessionId, response };
+  }
+
+  // Current state of an input request, pending or completed
+  getInputRequestStatus(sessionId: string): InputRequestRecord | undefined {
+    const pendingRequest = this.pendingRequests.get(sessionId);
+    if (pendingRequest) {
+      return this.toRecord(pendingRequest, 'pending');
+    }
+    const record = this.completedRequests.get(sessionId);
+    return record ? { ...record } : undefined;
   }
 
   private async sendApnsPushToDisconnectedDevices(
@@ -498,18 +850,24 @@ class MonitoringManager {
     }
 
     // Find devices with APNs tokens that are NOT currently connected
+    let pushed = 0;
     for (const [deviceId, apnsToken] of this.deviceApnsTokens.entries()) {
       const client = this.clients.get(deviceId);
       const isConnected = client && client.ws.readyState === WebSocket.OPEN;
 
       if (!isConnected && !pendingRequest.pushedViaApns.has(deviceId)) {
-        const success = await this.sendApnsPush(apnsToken, payload);
+        const success = await this.sendApnsPush(apnsToken, payload, pendingRequest.permission ? 'permission' : 'input');
         if (success) {
           pendingRequest.pushedViaApns.add(deviceId);
+          pushed++;
           logger.info(`APNs push sent to disconnected device ${deviceId}`);
         }
       }
     }
+
+    if (pushed > 0 && this.pendingRequests.has(pendingRequest.sessionId)) {
+      this.persistInputRequests();
+    }
   }
 
   // Get pending input request count
@@ -523,7 +881,9 @@ class MonitoringManager {
     if (pendingRequest) {
       clearTimeout(pendingRequest.timeoutId);
       this.pendingRequests.delete(sessionId);
-      pendingRequest.reject(new Error('Input request cancelled'));
+      this.completeRequest(pendingRequest, 'cancelled');
+      const error = new Error('Input request cancelled');
+      pendingRequest.waiters.forEach((waiter) => waiter.reject(error));
       return true;
     }
     return false;
@@ -532,11 +892,13 @@ class MonitoringManager {
   // Notify connected devices of input required
   notifyInputRequired(payload: InputRequiredPayload, pendingRequest?: PendingInputRequest): void {
     const logger = getLogger();
-    const message: MonitoringMessage = {
-      type: 'input_required',
-      timestamp: new Date().toISOString(),
-      payload: payload as unknown as Record<string, unknown>,
-    };
+    const message: MonitoringMessage = pendingRequest
+      ? this.buildRequestMessage(pendingRequest)
+      : {
+          type: 'input_required',
+          timestamp: new Date().toISOString(),
+          payload: payload as unknown as Record<string, unknown>,
+        };
 
     let notified = 0;
     this.clients.forEach((client, deviceId) => {
@@ -554,7 +916,8 @@ class MonitoringManager {
   }
 
   // Notify connected devices of task completion
-  notifyTaskComplete(sessionId: string, projectTag: string, summary?: string): void {
+  // Returns the number of devices notified
+  notifyTaskComplete(sessionId: string, projectTag: string, summary?: string): number {
     const logger = getLogger();
     const message: MonitoringMessage = {
       type: 'task_complete',
@@ -562,13 +925,16 @@ class MonitoringManager {
       payload: { sessionId, projectTag, summary },
     };
 
+    let notified = 0;
     this.clients.forEach((client) => {
       if (client.ws.readyState === WebSocket.OPEN) {
         this.sendMessage(client.ws, message);
+        notified++;
       }
     });
 
-    logger.info(`Task complete notification sent for session: ${sessionId}`);
+    logger.info(`Task complete notification sent for session: ${sessionId} (${notified} device(s))`, { project: projectTag });
+    return notified;
   }
 
   // Detect if text contains input request pattern
@@ -615,11 +981,15 @@ class MonitoringManager {
       this.apnsProvider = null;
     }
 
-    // Clear pending requests
+    // Persist pending requests so they are restored on the next start, then release waiting callers
+    this.persistInputRequests();
+    const shutdownError = new Error('Listener shutting down; re-issue the request with the same idempotency key to resume');
     this.pendingRequests.forEach((request) => {
       clearTimeout(request.timeoutId);
+      request.waiters.forEach((waiter) => waiter.reject(shutdownError));
     });
     this.pendingRequests.clear();
+    this.completedRequests.clear();
 
     logger.info('Monitoring WebSocket server shutdown');
   }
@@ -635,5 +1005,29 @@ class MonitoringManager {
   }
 }
 
+export function toInputRequestStatusResponse(record: InputRequestRecord): InputRequestStatusResponse {
+  return {
+    success: true,
+    request_id: record.sessionId,
+    status: record.status,
+    project_tag: record.projectTag,
+    prompt: record.prompt,
+    options: record.options,
+    input_type: record.inputType,
+    created_at: record.createdAt,
+    deadline: record.deadline,
+    ...(record.response !== undefined && { response: record.response }),
+    ...(record.respondedBy && { responded_by: record.respondedBy }),
+    ...(record.completedAt && { completed_at: record.completedAt }),
+    ...(record.permission && {
+      permission: {
+        tool_name: record.permission.toolName,
+        tool_input: record.permission.toolInput,
+        preview: record.permission.preview,
+      },
+    }),
+  };
+}
+
 // Singleton instance
 export const monitoringManager = new MonitoringManager();
@@ -0,0 +1,56 @@
+import * as path from 'path';
+import { NoteIndexEntry, NoteSummary, NoteType } from './types';
+import { Page } from './conversations';
+import { JournalStore } from './store';
+
+export interface NoteFilters {
+  project?: string;
+  type?: NoteType;
+  completed?: boolean;
+  since?: Date;
+  until?: Date;
+}
+
+export function toNoteSummary(noteId: string, entry: NoteIndexEntry): NoteSummary {
+  return {
+    note_id: noteId,
+    project_tag: entry.project_tag,
+    file: path.basename(entry.file_path),
+    type: entry.type,
+    ...(entry.title !== undefined && { title: entry.title }),
+    created_at: entry.created_at,
+    ...(entry.updated_at && { updated_at: entry.updated_at }),
+    ...(entry.completed !== undefined && { completed: entry.completed }),
+    ...(entry.priority && { priority: entry.priority }),
+  };
+}
+
+// Project and date ranges come from the store's indexes; the rest is checked here
+function matchesFilters(entry: NoteIndexEntry, filters: NoteFilters): boolean {
+  if (filters.type && entry.type !== filters.type) {
+    return false;
+  }
+  // Notes never count as completed; only todos can match completed=true
+  if (filters.completed !== undefined && (entry.completed ?? false) !== filters.completed) {
+    return false;
+  }
+  return true;
+}
+
+// Newest first
+export function listNotes(
+  store: JournalStore<NoteIndexEntry>,
+  filters: NoteFilters,
+  limit: number,
+  offset: number
+): Page<NoteSummary> {
+  const all = store
+    .query({ project: filters.project, since: filters.since, until: filters.until })
+    .filter(([, entry]) => matchesFilters(entry, filters))
+    .map(([id, entry]) => toNoteSummary(id, entry));
+
+  return {
+    items: all.slice(offset, offset + limit),
+    total: all.length,
+  };
+}
@@ -0,0 +1,93 @@
+import * as crypto from 'crypto';
+import { Config, DeviceRecord, PairingCode, PairingCodeStatus } from './types';
+import { addDevice, listDevices } from './devices';
+
+// One-time codes shown in the pairing QR code. They live only in the listener
+// process, so a restart invalidates any code that hasn't been used.
+
+export const PAIRING_CODE_TTL_MS = 5 * 60 * 1000;
+export const PAIRING_URI_SCHEME = 'thought-traveller';
+
+// Crockford base32: no I, L, O or U, so a code read aloud or typed is unambiguous
+const CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const CODE_LENGTH = 8;
+
+// Keep redeemed and expired codes around briefly so `tt pair` can report the outcome
+const FINISHED_CODE_RETENTION_MS = 60 * 1000;
+
+interface PairingEntry {
+  expiresAt: number;
+  device?: DeviceRecord;
+}
+
+const pairingCodes = new Map<string, PairingEntry>();
+
+function generatePairingCode(): string {
+  const bytes = crypto.randomBytes(CODE_LENGTH);
+  return Array.from(bytes, (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+}
+
+function removeStaleCodes(): void {
+  const now = Date.now();
+  for (const [code, entry] of pairingCodes) {
+    if (entry.expiresAt + FINISHED_CODE_RETENTION_MS < now) {
+      pairingCodes.delete(code);
+    }
+  }
+}
+
+export function createPairingCode(ttlMs: number = PAIRING_CODE_TTL_MS): PairingCode {
+  removeStaleCodes();
+  const code = generatePairingCode();
+  const expiresAt = Date.now() + ttlMs;
+  pairingCodes.set(code, { expiresAt });
+  return { code, expires_at: new Date(expiresAt).toISOString() };
+}
+
+export function getPairingCodeStatus(code: string): PairingCodeStatus {
+  const entry = pairingCodes.get(code);
+  if (entry?.device) {
+    return { state: 'paired', device_id: entry.device.id, device_name: entry.device.name };
+  }
+  if (!entry || entry.expiresAt < Date.now()) {
+    return { state: 'expired' };
+  }
+  return { state: 'pending' };
+}
+
+// Phones pair with their system name, so a second "iPhone" becomes "iPhone (2)"
+function uniqueDeviceName(name: string): string {
+  const taken = new Set(listDevices().map((d) => d.name));
+  let candidate = name;
+  for (let n = 2; taken.has(candidate); n++) {
+    candidate = `${name} (${n})`;
+  }
+  return candidate;
+}
+
+/**
+ * Exchange a pairing code for a new device token. Each code works once;
+ * unknown, used and expired codes are all rejected the same way.
+ */
+export function redeemPairingCode(code: string, deviceName: string): { device: DeviceRecord; token: string } {
+  const entry = pairingCodes.get(code.toUpperCase());
+  if (!entry || entry.device || entry.expiresAt < Date.now()) {
+    throw new Error('Invalid or expired pairing code');
+  }
+
+  const result = addDevice(uniqueDeviceName(deviceName));
+  entry.device = result.device;
+  return result;
+}
+
+/**
+ * Link encoded in the pairing QR code. The fingerprint is the certificate's
+ * SHA-256 in hex without separators, and is omitted when TLS is off.
+ */
+export function buildPairingUri(config: Config, url: string, pairing: PairingCode, fingerprint: string | null): string {
+  const params = new URLSearchParams({ url, id: config.listener.id, code: pairing.code });
+  if (fingerprint) {
+    params.set('fp', fingerprint.replace(/:/g, '').toLowerCase());
+  }
+  return `${PAIRING_URI_SCHEME}://pair?${params.toString()}`;
+}
@@ -0,0 +1,146 @@
+import { PermissionDecision, PermissionRule, PermissionsFile } from './types';
+import { loadPermissions, savePermissions } from './config';
+
+export const PERMISSION_DECISIONS: PermissionDecision[] = ['allow', 'deny', 'always_allow'];
+
+const PREVIEW_MAX_LENGTH = 2000;
+const PREVIEW_MAX_LINES = 40;
+
+// Tools whose input names a file; rules for them match on the path
+const FILE_TOOLS = ['Read', 'Edit', 'MultiEdit', 'Write', 'NotebookEdit'];
+
+function truncate(text: string): string {
+  const result = text.split('\n').slice(0, PREVIEW_MAX_LINES).join('\n').slice(0, PREVIEW_MAX_LENGTH);
+  return result.length < text.length ? result + '\n…' : result;
+}
+
+function prefixLines(text: string, prefix: string): string {
+  return text.split('\n').map((line) => prefix + line).join('\n');
+}
+
+/**
+ * The part of a tool call that an allowlist rule matches on: the command for
+ * Bash, the file for file tools, the URL for WebFetch. Other tools have none,
+ * so "always allow" covers every use of them.
+ */
+export function getPermissionSpecifier(toolName: string, toolInput: Record<string, unknown>): string | undefined {
+  let value: unknown;
+  if (toolName === 'Bash') {
+    value = toolInput.command;
+  } else if (FILE_TOOLS.includes(toolName)) {
+    value = toolInput.file_path ?? toolInput.notebook_path;
+  } else if (toolName === 'WebFetch') {
+    value = toolInput.url;
+  }
+  return typeof value === 'string' ? value : undefined;
+}
+
+// Short text shown on the phone: the command, a diff of the edit, or the raw input
+export function buildPermissionPreview(toolName: string, toolInput: Record<string, unknown>): string {
+  const filePath = typeof toolInput.file_path === 'string' ? toolInput.file_path : undefined;
+
+  if (toolName === 'Bash' && typeof toolInput.command === 'string') {
+    return truncate(toolInput.command);
+  }
+  if (toolName === 'Edit' && filePath) {
+    const oldText = String(toolInput.old_string ?? '');
+    const newText = String(toolInput.new_string ?? '');
+    return truncate(`${filePath}\n${prefixLines(oldText, '- ')}\n${prefixLines(newText, '+ ')}`);
+  }
+  if (toolName === 'MultiEdit' && filePath && Array.isArray(toolInput.edits)) {
+    const edits = (toolInput.edits as Array<Record<string, unknown>>).map(
+      (edit) => `${prefixLines(String(edit.old_string ?? ''), '- ')}\n${prefixLines(String(edit.new_string ?? ''), '+ ')}`
+    );
+    return truncate(`${filePath}\n${edits.join('\n')}`);
+  }
+  if (toolName === 'Write' && filePath) {
+    return truncate(`${filePath}\n${prefixLines(String(toolInput.content ?? ''), '+ ')}`);
+  }
+  return truncate(JSON.stringify(toolInput, null, 2));
+}
+
+// Only rules written through the CLI (or by hand) may use wildcards. A rule from
+// "always allow" holds the exact command that was approved, which can itself end
+// in *, so it never widens to a prefix. Rules saved before the exact flag
+// existed are recognised by who added them.
+function isLiteralRule(rule: PermissionRule): boolean {
+  return rule.exact === true || (rule.added_by !== undefined && rule.added_by !== 'cli');
+}
+
+export function ruleMatches(rule: PermissionRule, toolName: string, specifier: string | undefined): boolean {
+  if (rule.tool !== toolName) {
+    return false;
+  }
+  if (rule.specifier === undefined) {
+    return true;
+  }
+  if (specifier === undefined) {
+    return false;
+  }
+  if (!isLiteralRule(rule) && rule.specifier.endsWith('*')) {
+    return specifier.startsWith(rule.specifier.slice(0, -1));
+  }
+  return specifier === rule.specifier;
+}
+
+export function findPermissionRule(
+  permissions: PermissionsFile,
+  projectTag: string,
+  toolName: string,
+  toolInput: Record<string, unknown>
+): PermissionRule | undefined {
+  const specifier = getPermissionSpecifier(toolName, toolInput);
+  return (permissions[projectTag] || []).find((rule) => ruleMatches(rule, toolName, specifier));
+}
+
+// Add a rule to a project's allowlist; an identical rule is not duplicated.
+// Exact rules match their specifier literally, even when it ends in *.
+export function addPermissionRule(
+  projectTag: string,
+  tool: string,
+  specifier: string | undefined,
+  addedBy: string,
+  exact = false
+): PermissionRule {
+  const permissions = loadPermissions();
+  const rules = permissions[projectTag] || [];
+
+  const existing = rules.find(
+    (rule) => rule.tool === tool && rule.specifier === specifier && isLiteralRule(rule) === exact
+  );
+  if (existing) {
+    return existing;
+  }
+
+  const rule: PermissionRule = {
+    tool,
+    ...(specifier !== undefined && { specifier }),
+    ...(exact && { exact }),
+    created_at: new Date().toISOString(),
+    added_by: addedBy,
+  };
+  permissions[projectTag] = [...rules, rule];
+  savePermissions(permissions);
+  return rule;
+}
+
+// Remove rules for a tool (optionally only the one with this specifier); returns the number removed
+export function removePermissionRules(projectTag: string, tool: string, specifier?: string): number {
+  const permissions = loadPermissions();
+  const rules = permissions[projectTag] || [];
+  const remaining = rules.filter(
+    (rule) => !(rule.tool === tool && (specifier === undefined || rule.specifier === specifier))
+  );
+
+  if (remaining.length === rules.length) {
+    return 0;
+  }
+
+  if (remaining.length > 0) {
+    permissions[projectTag] = remaining;
+  } else {
+    delete permissions[projectTag];
+  }
+  savePermissions(permissions);
+  return rules.length - remaining.length;
+}
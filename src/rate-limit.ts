@@ -0,0 +1,162 @@
+import { IpLockout, RateLimitConfig } from './types';
+import { getLogger } from './logger';
+
+export const DEFAULT_RATE_LIMIT_CONFIG: RateLimitConfig = {
+  enabled: true,
+  requests_per_minute: 120,
+  max_failures: 5,
+  lockout_seconds: 30,
+  max_lockout_seconds: 3600,
+};
+
+const WINDOW_MS = 60 * 1000;
+
+// A client's failure count starts over after this long without a failed attempt
+const FAILURE_MEMORY_MS = 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; reason: 'locked' | 'rate'; retry_after: number };   // seconds
+
+interface ClientState {
+  windowStart: number;
+  requests: number;
+  failures: number;
+  lastFailure: number;
+  lockedUntil: number;
+}
+
+let settings: RateLimitConfig = DEFAULT_RATE_LIMIT_CONFIG;
+const clients = new Map<string, ClientState>();
+let lastPrune = 0;
+
+export function resolveRateLimitConfig(rateLimit?: Partial<RateLimitConfig>): RateLimitConfig {
+  return { ...DEFAULT_RATE_LIMIT_CONFIG, ...rateLimit };
+}
+
+// Apply a changed rate_limit section; existing lockouts are kept
+export function applyRateLimitConfig(rateLimit?: Partial<RateLimitConfig>): RateLimitConfig {
+  settings = resolveRateLimitConfig(rateLimit);
+  return settings;
+}
+
+// IPv4 clients of a dual-stack server show up as ::ffff:a.b.c.d
+export function normalizeIp(address: string | undefined): string {
+  if (!address) {
+    return 'unknown';
+  }
+  return address.startsWith('::ffff:') ? address.slice(7) : address;
+}
+
+export function isLoopback(ip: string): boolean {
+  return ip === '::1' || ip.startsWith('127.');
+}
+
+function getClient(ip: string, now: number): ClientState {
+  let client = clients.get(ip);
+  if (!client) {
+    client = { windowStart: now, requests: 0, failures: 0, lastFailure: 0, lockedUntil: 0 };
+    clients.set(ip, client);
+  }
+  return client;
+}
+
+function pruneClients(now: number): void {
+  if (now - lastPrune < PRUNE_INTERVAL_MS) {
+    return;
+  }
+  lastPrune = now;
+  for (const [ip, client] of clients) {
+    if (client.lockedUntil <= now && now - client.windowStart > WINDOW_MS && now - client.lastFailure > FAILURE_MEMORY_MS) {
+      clients.delete(ip);
+    }
+  }
+}
+
+/**
+ * Decide whether to serve a request from this IP before its credentials are
+ * checked. Locked-out clients are refused outright, so guesses made during a
+ * lockout neither succeed nor extend it.
+ */
+export function checkRateLimit(ip: string): RateLimitResult {
+  if (!settings.enabled) {
+    return { allowed: true };
+  }
+
+  const now = Date.now();
+  pruneClients(now);
+  const client = getClient(ip, now);
+
+  if (client.lockedUntil > now) {
+    return { allowed: false, reason: 'locked', retry_after: Math.ceil((client.lockedUntil - now) / 1000) };
+  }
+
+  // Hooks and the CLI call the listener in bursts from this machine
+  if (settings.requests_per_minute <= 0 || isLoopback(ip)) {
+    return { allowed: true };
+  }
+
+  if (now - client.windowStart >= WINDOW_MS) {
+    client.windowStart = now;
+    client.requests = 0;
+  }
+  client.requests++;
+  if (client.requests > settings.requests_per_minute) {
+    return { allowed: false, reason: 'rate', retry_after: Math.ceil((client.windowStart + WINDOW_MS - now) / 1000) };
+  }
+  return { allowed: true };
+}
+
+export function recordAuthFailure(ip: string): void {
+  if (!settings.enabled) {
+    return;
+  }
+
+  const now = Date.now();
+  const client = getClient(ip, now);
+  if (now - client.lastFailure > FAILURE_MEMORY_MS) {
+    client.failures = 0;
+  }
+  client.failures++;
+  client.lastFailure = now;
+
+  if (settings.max_failures > 0 && client.failures >= settings.max_failures) {
+    const doublings = client.failures - settings.max_failures;
+    const seconds = Math.min(settings.lockout_seconds * 2 ** doublings, settings.max_lockout_seconds);
+    client.lockedUntil = now + seconds * 1000;
+    getLogger().warn(`Locked out ${ip} for ${seconds}s after ${client.failures} failed auth attempts`);
+  }
+}
+
+export function recordAuthSuccess(ip: string): void {
+  const client = clients.get(ip);
+  if (client) {
+    client.failures = 0;
+    client.lockedUntil = 0;
+  }
+}
+
+export function getLockouts(): IpLockout[] {
+  const now = Date.now();
+  return Array.from(clients.entries())
+    .filter(([, client]) => client.lockedUntil > now)
+    .map(([ip, client]) => ({ ip, failures: client.failures, locked_until: new Date(client.lockedUntil).toISOString() }));
+}
+
+// Lift the lockout and forget past failures for one IP, or for all; returns how many were locked out
+export function clearLockouts(ip?: string): number {
+  const now = Date.now();
+  let cleared = 0;
+  for (const [clientIp, client] of clients) {
+    if (ip && clientIp !== normalizeIp(ip)) {
+      continue;
+    }
+    if (client.lockedUntil > now) {
+      cleared++;
+    }
+    client.failures = 0;
+    client.lockedUntil = 0;
+  }
+  return cleared;
+}
@@ -0,0 +1,402 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Config, ConversationIndexEntry, NoteIndexEntry, ProjectConfig } from './types';
+import { getConversationsStore, getNotesStore, resolvePath } from './config';
+import { JournalStore } from './store';
+import { isConversationArchive } from './archive';
+import { parseConversationMarkdown, parseConversationMarkdownHeader, parseNoteMarkdown } from './markdown';
+
+// Rebuilds and checks the conversation and note indexes against the files
+// actually in the project directories. The files are the source of truth.
+
+// Directories no export pattern writes to, and that can be large
+const SKIPPED_DIRECTORIES = new Set(['node_modules', '.git']);
+
+// Enough to tell an export from any other .md or .json file without reading it all
+const SNIFF_BYTES = 4096;
+
+const NOTE_FOOTER = '*Exported via Claude Traveller*';
+
+export type IndexName = 'conversations' | 'notes';
+
+export type IndexIssueKind =
+  | 'orphan'          // file on disk that the index doesn't point to
+  | 'dangling'        // index entry whose file is gone or belongs to another ID
+  | 'duplicate'       // more than one file with the same ID
+  | 'stale'           // index entry that disagrees with its file
+  | 'unidentified';   // note saved before notes recorded their ID
+
+// Issues --fix resolves; duplicates and unidentified notes need the files sorted out by hand
+export const FIXABLE_ISSUE_KINDS: ReadonlySet<IndexIssueKind> = new Set(['orphan', 'dangling', 'stale']);
+
+export interface IndexIssue {
+  index: IndexName;
+  kind: IndexIssueKind;
+  id?: string;
+  file?: string;
+  details: string;
+}
+
+export interface IndexReport {
+  files_scanned: number;
+  conversations: number;
+  notes: number;
+  issues: IndexIssue[];
+  fixed: boolean;
+}
+
+interface FoundFile<T> {
+  id: string;
+  entry: T;
+  mtimeMs: number;
+}
+
+interface ScanResult {
+  filesScanned: number;
+  conversations: Map<string, FoundFile<ConversationIndexEntry>[]>;
+  notes: Map<string, FoundFile<NoteIndexEntry>[]>;
+  unidentifiedNotes: FoundFile<NoteIndexEntry>[];
+}
+
+function listCandidateFiles(directory: string, files: string[] = []): string[] {
+  let dirents: fs.Dirent[];
+  try {
+    dirents = fs.readdirSync(directory, { withFileTypes: true });
+  } catch {
+    return files;
+  }
+  for (const dirent of dirents) {
+    const fullPath = path.join(directory, dirent.name);
+    if (dirent.isDirectory()) {
+      if (!SKIPPED_DIRECTORIES.has(dirent.name)) {
+        listCandidateFiles(fullPath, files);
+      }
+    } else if (dirent.isFile() && /\.(md|json)$/.test(dirent.name)) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+function readStart(filePath: string): string {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(SNIFF_BYTES);
+    const bytesRead = fs.readSync(fd, buffer, 0, SNIFF_BYTES, 0);
+    return buffer.subarray(0, bytesRead).toString('utf-8');
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+function addFound<T>(found: Map<string, FoundFile<T>[]>, file: FoundFile<T>): void {
+  const files = found.get(file.id) || [];
+  files.push(file);
+  found.set(file.id, files);
+}
+
+function scanFile(filePath: string, project: ProjectConfig, result: ScanResult): void {
+  const start = readStart(filePath);
+  const mtime = fs.statSync(filePath).mtime;
+  const fallbackTime = mtime.toISOString();
+
+  if (filePath.endsWith('.json')) {
+    if (!start.includes('"thought-traveller-conversation"')) {
+      return;
+    }
+    const archive = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as unknown;
+    if (!isConversationArchive(archive)) {
+      return;
+    }
+    addFound(result.conversations, {
+      id: archive.conversation_id,
+      mtimeMs: mtime.getTime(),
+      entry: {
+        project_tag: project.tag,
+        file_path: filePath,
+        created_at: archive.created_at,
+        last_updated: archive.last_updated,
+        message_count: archive.messages.length,
+      },
+    });
+    return;
+  }
+
+  if (start.startsWith('# Mobile Notes - ')) {
+    const content = fs.readFileSync(filePath, 'utf-8');
+    const header = parseConversationMarkdownHeader(content);
+    if (!header) {
+      return;
+    }
+    addFound(result.conversations, {
+      id: header.conversation_id,
+      mtimeMs: mtime.getTime(),
+      entry: {
+        project_tag: project.tag,
+        file_path: filePath,
+        created_at: header.started_at || fallbackTime,
+        last_updated: header.last_updated || fallbackTime,
+        message_count: parseConversationMarkdown(content).length,
+      },
+    });
+    return;
+  }
+
+  // Notes have no fixed title line, so look for the header fields generateNoteMarkdown writes
+  if (start.startsWith('# ') && start.includes('\n**Project:** ') && start.includes('\n**Created:** ')) {
+    const content = fs.readFileSync(filePath, 'utf-8');
+    if (!content.includes(NOTE_FOOTER)) {
+      return;
+    }
+    const parsed = parseNoteMarkdown(content);
+    const file: FoundFile<NoteIndexEntry> = {
+      id: parsed.note_id || '',
+      mtimeMs: mtime.getTime(),
+      entry: {
+        project_tag: project.tag,
+        file_path: filePath,
+        type: parsed.type,
+        title: parsed.title,
+        created_at: parsed.created_at || fallbackTime,
+        ...(parsed.updated_at && { updated_at: parsed.updated_at }),
+        ...(parsed.completed !== undefined && { completed: parsed.completed }),
+        ...(parsed.priority && { priority: parsed.priority }),
+      },
+    };
+    if (file.id) {
+      addFound(result.notes, file);
+    } else {
+      result.unidentifiedNotes.push(file);
+    }
+  }
+}
+
+/**
+ * Find every conversation and note export under the configured project
+ * directories. Nested projects are scanned innermost first, so a file belongs
+ * to the most specific project that contains it.
+ */
+function scanProjects(config: Config): ScanResult {
+  const result: ScanResult = { filesScanned: 0, conversations: new Map(), notes: new Map(), unidentifiedNotes: [] };
+  const seen = new Set<string>();
+  const projects = [...config.projects].sort((a, b) => resolvePath(b.path).length - resolvePath(a.path).length);
+
+  for (const project of projects) {
+    for (const filePath of listCandidateFiles(resolvePath(project.path))) {
+      if (seen.has(filePath)) {
+        continue;
+      }
+      seen.add(filePath);
+      result.filesScanned++;
+      try {
+        scanFile(filePath, project, result);
+      } catch {
+        // Unreadable or not valid JSON: not one of ours
+      }
+    }
+  }
+  return result;
+}
+
+// Of several files with one ID, keep the one the index already uses, else the newest
+function pickFile<T extends { file_path: string }>(files: FoundFile<T>[], indexed: T | undefined): FoundFile<T> {
+  return (
+    files.find((file) => file.entry.file_path === indexed?.file_path) ||
+    files.reduce((newest, file) => (file.mtimeMs > newest.mtimeMs ? file : newest))
+  );
+}
+
+/**
+ * Build index entries from the files found. Timestamps already in the index
+ * are kept for files it points to, since markdown only records them to the minute.
+ */
+function buildEntries<T extends { file_path: string; created_at: string }>(
+  index: IndexName,
+  found: Map<string, FoundFile<T>[]>,
+  current: Record<string, T>,
+  keep: (entry: T, indexed: T) => T,
+  issues: IndexIssue[]
+): Record<string, T> {
+  const entries: Record<string, T> = {};
+  for (const [id, files] of found) {
+    const indexed = current[id];
+    const chosen = pickFile(files, indexed);
+    if (files.length > 1) {
+      issues.push({
+        index,
+        kind: 'duplicate',
+        id,
+        file: chosen.entry.file_path,
+        details: `${files.length} files share this ID; using ${chosen.entry.file_path}, also in ${files
+          .filter((file) => file !== chosen)
+          .map((file) => file.entry.file_path)
+          .join(', ')}`,
+      });
+    }
+    entries[id] = indexed && indexed.file_path === chosen.entry.file_path ? keep(chosen.entry, indexed) : chosen.entry;
+  }
+  return entries;
+}
+
+// Compare what is on disk with the index, entry by entry
+function compareEntries<T extends { file_path: string }>(
+  index: IndexName,
+  rebuilt: Record<string, T>,
+  current: Record<string, T>,
+  differences: (rebuilt: T, indexed: T) => string[],
+  issues: IndexIssue[]
+): void {
+  for (const [id, entry] of Object.entries(current)) {
+    const onDisk = rebuilt[id];
+    if (!onDisk) {
+      const reason = fs.existsSync(entry.file_path) ? 'file no longer holds this ID' : 'file not found';
+      issues.push({ index, kind: 'dangling', id, file: entry.file_path, details: reason });
+    } else if (onDisk.file_path !== entry.file_path) {
+      issues.push({ index, kind: 'dangling', id, file: entry.file_path, details: `moved to ${onDisk.file_path}` });
+    } else {
+      const changed = differences(onDisk, entry);
+      if (changed.length > 0) {
+        issues.push({ index, kind: 'stale', id, file: entry.file_path, details: changed.join('; ') });
+      }
+    }
+  }
+  for (const [id, entry] of Object.entries(rebuilt)) {
+    if (current[id]?.file_path !== entry.file_path) {
+      issues.push({ index, kind: 'orphan', id, file: entry.file_path, details: 'not in the index' });
+    }
+  }
+}
+
+function conversationDifferences(onDisk: ConversationIndexEntry, indexed: ConversationIndexEntry): string[] {
+  const changed: string[] = [];
+  if (onDisk.message_count !== indexed.message_count) {
+    changed.push(`message_count ${indexed.message_count} in index, ${onDisk.message_count} in file`);
+  }
+  if (onDisk.project_tag !== indexed.project_tag) {
+    changed.push(`project ${indexed.project_tag} in index, file is under ${onDisk.project_tag}`);
+  }
+  return changed;
+}
+
+// Fields the index leaves out when the phone did: the file then shows the default
+function normalizeNote(entry: NoteIndexEntry, onDisk: NoteIndexEntry): Partial<NoteIndexEntry> {
+  return {
+    project_tag: entry.project_tag,
+    type: entry.type,
+    title: entry.title ?? onDisk.title,
+    completed: entry.type === 'todo' ? entry.completed ?? false : undefined,
+    priority: entry.priority,
+  };
+}
+
+function noteDifferences(onDisk: NoteIndexEntry, indexed: NoteIndexEntry): string[] {
+  const fromFile = normalizeNote(onDisk, onDisk);
+  const fromIndex = normalizeNote(indexed, onDisk);
+  const changed: string[] = [];
+  for (const field of ['project_tag', 'type', 'title', 'completed', 'priority'] as const) {
+    if ((fromFile[field] ?? null) !== (fromIndex[field] ?? null)) {
+      changed.push(`${field} ${JSON.stringify(fromIndex[field] ?? null)} in index, ${JSON.stringify(fromFile[field] ?? null)} in file`);
+    }
+  }
+  return changed;
+}
+
+function keepConversationTimes(entry: ConversationIndexEntry, indexed: ConversationIndexEntry): ConversationIndexEntry {
+  // A file with more messages than the index knows about was appended to since
+  const appended = entry.message_count > indexed.message_count;
+  // Message hashes only stay valid while the file holds the same messages; without them they are recomputed from the file
+  const unchanged = entry.message_count === indexed.message_count && indexed.message_hashes;
+  return {
+    ...entry,
+    created_at: indexed.created_at,
+    last_updated: appended ? entry.last_updated : indexed.last_updated,
+    ...(unchanged && { message_hashes: indexed.message_hashes }),
+  };
+}
+
+function keepNoteTimes(entry: NoteIndexEntry, indexed: NoteIndexEntry): NoteIndexEntry {
+  return {
+    ...entry,
+    created_at: indexed.created_at,
+    ...(indexed.updated_at && { updated_at: indexed.updated_at }),
+  };
+}
+
+/**
+ * Write the rebuilt entries in one transaction, touching only keys that differ.
+ * Entries the listener changed since they were read are left alone, so a save
+ * that lands during the scan is never overwritten with older data.
+ */
+function applyEntries<T>(store: JournalStore<T>, rebuilt: Record<string, T>, scanned: Record<string, T>): void {
+  store.transaction((tx) => {
+    for (const id of new Set([...Object.keys(scanned), ...Object.keys(rebuilt)])) {
+      const before = JSON.stringify(scanned[id]);
+      if (JSON.stringify(tx.get(id)) !== before) {
+        continue;
+      }
+      if (rebuilt[id] === undefined) {
+        tx.delete(id);
+      } else if (JSON.stringify(rebuilt[id]) !== before) {
+        tx.put(id, rebuilt[id]);
+      }
+    }
+  });
+}
+
+function checkIndexes(config: Config, mode: 'verify' | 'fix' | 'rebuild'): IndexReport {
+  const conversationsStore = getConversationsStore();
+  const notesStore = getNotesStore();
+  const currentConversations = conversationsStore.toObject();
+  const currentNotes = notesStore.toObject();
+  const scan = scanProjects(config);
+  const issues: IndexIssue[] = [];
+
+  // Notes from before the Note ID header can still be matched by their indexed path
+  const idsByPath = new Map(Object.entries(currentNotes).map(([id, entry]) => [entry.file_path, id]));
+  for (const file of scan.unidentifiedNotes) {
+    const id = idsByPath.get(file.entry.file_path);
+    if (id) {
+      addFound(scan.notes, { ...file, id });
+    } else {
+      issues.push({ index: 'notes', kind: 'unidentified', file: file.entry.file_path, details: 'no Note ID header; cannot be indexed' });
+    }
+  }
+
+  const conversations = buildEntries('conversations', scan.conversations, currentConversations, keepConversationTimes, issues);
+  const notes = buildEntries('notes', scan.notes, currentNotes, keepNoteTimes, issues);
+  if (mode !== 'rebuild') {
+    compareEntries('conversations', conversations, currentConversations, conversationDifferences, issues);
+    compareEntries('notes', notes, currentNotes, noteDifferences, issues);
+  }
+
+  if (mode !== 'verify') {
+    applyEntries(conversationsStore, conversations, currentConversations);
+    applyEntries(notesStore, notes, currentNotes);
+  }
+
+  return {
+    files_scanned: scan.filesScanned,
+    conversations: Object.keys(conversations).length,
+    notes: Object.keys(notes).length,
+    issues,
+    fixed: mode !== 'verify',
+  };
+}
+
+/**
+ * Report where the indexes and the exported files disagree. With fix, the
+ * indexes are brought in line with the files: orphans are added, moved files
+ * re-pointed, stale entries refreshed and entries without a file dropped.
+ * Files themselves are never changed or deleted.
+ */
+export function verifyIndexes(config: Config, fix: boolean = false): IndexReport {
+  return checkIndexes(config, fix ? 'fix' : 'verify');
+}
+
+/**
+ * Set both indexes to exactly what is found on disk. Only duplicates and
+ * notes without an ID are reported.
+ */
+export function rebuildIndexes(config: Config): IndexReport {
+  return checkIndexes(config, 'rebuild');
+}
@@ -0,0 +1,122 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Checks for file names that come from clients (payload.filename) or are
+// rendered from their data, before anything is written under a project.
+
+// Most filesystems limit a single name to 255 bytes
+export const MAX_FILENAME_BYTES = 255;
+export const MAX_RELATIVE_PATH_LENGTH = 1024;
+
+// Device names Windows reserves in every directory, with or without an extension
+const WINDOWS_RESERVED_NAMES = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])(\..*)?$/i;
+
+// `message` is safe to show the client as the error; `details` says which rule was broken
+export class PathValidationError extends Error {
+  constructor(message: string, readonly details: string) {
+    super(message);
+    this.name = 'PathValidationError';
+  }
+}
+
+function isAbsoluteLike(name: string): boolean {
+  // POSIX absolute, Windows drive ("C:\x" or "C:x") and UNC ("\\server\share") paths
+  return name.startsWith('/') || name.startsWith('\\') || /^[a-zA-Z]:/.test(name) || path.isAbsolute(name);
+}
+
+/**
+ * Normalize a client-supplied relative path: Unicode NFC, "/" separators,
+ * no empty or "." segments, and reserved characters replaced with "-" as in
+ * rendered filename patterns. Throws for traversal, absolute paths and names
+ * that are too long.
+ */
+export function sanitizeRelativePath(name: string): string {
+  if (typeof name !== 'string' || !name.trim()) {
+    throw new PathValidationError('Invalid filename', 'Filename is empty');
+  }
+  if (name.includes('\0')) {
+    throw new PathValidationError('Invalid filename', 'Filename contains a NUL character');
+  }
+  if (isAbsoluteLike(name)) {
+    throw new PathValidationError('Invalid filename', `Absolute paths are not allowed: ${name}`);
+  }
+
+  const segments = name
+    .normalize('NFC')
+    .split(/[\\/]+/)
+    .map((segment) => segment.trim());
+
+  if (segments.includes('..')) {
+    throw new PathValidationError('Invalid filename', `".." segments are not allowed: ${name}`);
+  }
+
+  const cleaned = segments
+    .filter((segment) => segment && segment !== '.')
+    .map((segment) => segment.replace(/[<>:"|?*\x00-\x1f]/g, '-'));
+
+  if (cleaned.length === 0) {
+    throw new PathValidationError('Invalid filename', `No filename left after normalizing: ${name}`);
+  }
+
+  for (const segment of cleaned) {
+    if (Buffer.byteLength(segment, 'utf-8') > MAX_FILENAME_BYTES) {
+      throw new PathValidationError('Filename too long', `"${segment.slice(0, 40)}…" is over ${MAX_FILENAME_BYTES} bytes`);
+    }
+    if (WINDOWS_RESERVED_NAMES.test(segment)) {
+      throw new PathValidationError('Invalid filename', `"${segment}" is a reserved device name`);
+    }
+  }
+
+  const result = cleaned.join('/');
+  if (result.length > MAX_RELATIVE_PATH_LENGTH) {
+    throw new PathValidationError('Filename too long', `Path is over ${MAX_RELATIVE_PATH_LENGTH} characters`);
+  }
+  return result;
+}
+
+export function isInsideDirectory(directory: string, target: string): boolean {
+  const relative = path.relative(directory, target);
+  return relative !== '' && !relative.startsWith('..' + path.sep) && relative !== '..' && !path.isAbsolute(relative);
+}
+
+// realpath of the deepest part of the path that exists, with the rest appended
+function realpathOfNearestExisting(target: string): string {
+  const missing: string[] = [];
+  let current = target;
+  for (;;) {
+    try {
+      return path.join(fs.realpathSync(current), ...missing.reverse());
+    } catch {
+      const parent = path.dirname(current);
+      if (parent === current) {
+        return target;
+      }
+      missing.push(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+/**
+ * Resolve a relative path under a directory, refusing anything that ends up
+ * outside it, either lexically or through a symbolic link inside it.
+ */
+export function resolveInsideDirectory(directory: string, relativePath: string): string {
+  const base = path.resolve(directory);
+  const target = path.resolve(base, sanitizeRelativePath(relativePath));
+
+  if (!isInsideDirectory(base, target)) {
+    throw new PathValidationError('Path escapes the project directory', `${relativePath} resolves outside ${base}`);
+  }
+
+  const realBase = realpathOfNearestExisting(base);
+  const realTarget = realpathOfNearestExisting(target);
+  if (!isInsideDirectory(realBase, realTarget)) {
+    throw new PathValidationError(
+      'Path escapes the project directory',
+      `${relativePath} resolves to ${realTarget} through a symbolic link, outside ${realBase}`
+    );
+  }
+
+  return target;
+}
@@ -0,0 +1,175 @@
+import { Request, Response, NextFunction } from 'express';
+import { ErrorResponse, PayloadKind } from './types';
+import { JsonSchema } from './validation';
+import { MAX_INPUT_TIMEOUT_SECONDS } from './monitoring';
+
+// Request body contracts, mirroring the payload types in types.ts.
+
+/**
+ * Payload versions this listener accepts, oldest first. Changes within a
+ * major version only add optional fields, so any 1.x payload is read as the
+ * newest 1.x listed here; a new major version is a breaking change. The list
+ * is advertised in /health so the app can pick a version before sending.
+ */
+export const SUPPORTED_PAYLOAD_VERSIONS: Record<PayloadKind, string[]> = {
+  conversation: ['1.0'],
+  note: ['1.0'],
+};
+
+// Payloads from before the version field was required
+export const DEFAULT_PAYLOAD_VERSION = '1.0';
+
+// Response header naming the version a payload was processed as
+export const PAYLOAD_VERSION_HEADER = 'Payload-Version';
+
+const VERSION_PATTERN = '^\\d+(\\.\\d+)*$';
+
+const nonEmptyString: JsonSchema = { type: 'string', minLength: 1 };
+const timestamp: JsonSchema = { type: 'string', format: 'date-time' };
+const timeoutSeconds: JsonSchema = { type: 'number', exclusiveMinimum: 0, maximum: MAX_INPUT_TIMEOUT_SECONDS };
+
+const deviceMetadata: JsonSchema = {
+  type: 'object',
+  required: ['device', 'app_version', 'ios_version'],
+  properties: {
+    device: { type: 'string' },
+    app_version: { type: 'string' },
+    ios_version: { type: 'string' },
+  },
+};
+
+const message: JsonSchema = {
+  type: 'object',
+  required: ['role', 'content', 'timestamp'],
+  properties: {
+    role: { type: 'string', enum: ['user', 'assistant'] },
+    content: { type: 'string' },
+    timestamp,
+  },
+};
+
+export const conversationPayloadSchema: JsonSchema = {
+  type: 'object',
+  required: ['conversation_id', 'project_tag', 'timestamp', 'conversation', 'metadata'],
+  properties: {
+    version: { type: 'string', pattern: VERSION_PATTERN },
+    conversation_id: nonEmptyString,
+    is_continuation: { type: 'boolean' },
+    previous_message_count: { type: 'integer', minimum: 0 },
+    timestamp,
+    project_tag: nonEmptyString,
+    filename: nonEmptyString,
+    conversation: {
+      type: 'object',
+      required: ['messages'],
+      properties: {
+        messages: { type: 'array', items: message },
+      },
+    },
+    metadata: deviceMetadata,
+  },
+};
+
+export const notePayloadSchema: JsonSchema = {
+  type: 'object',
+  required: ['note_id', 'project_tag', 'content', 'timestamp', 'metadata'],
+  properties: {
+    version: { type: 'string', pattern: VERSION_PATTERN },
+    note_id: nonEmptyString,
+    type: { type: 'string', enum: ['note', 'todo'] },   // Defaults to note
+    project_tag: nonEmptyString,
+    title: { type: 'string' },
+    content: nonEmptyString,
+    timestamp,
+    priority: { type: 'string', enum: ['low', 'medium', 'high'] },
+    completed: { type: 'boolean' },
+    metadata: deviceMetadata,
+  },
+};
+
+export const noteUpdatePayloadSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    content: { type: 'string' },
+    priority: { type: ['string', 'null'], enum: ['low', 'medium', 'high', null] },
+    completed: { type: 'boolean' },
+    timestamp,
+  },
+};
+
+export const inputRequestPayloadSchema: JsonSchema = {
+  type: 'object',
+  required: ['prompt'],
+  properties: {
+    project_tag: { type: 'string' },
+    prompt: nonEmptyString,
+    options: { type: 'array', items: { type: 'string' } },
+    input_type: { type: 'string', enum: ['numeric', 'yesno', 'text'] },
+    timeout_seconds: timeoutSeconds,
+    idempotency_key: nonEmptyString,
+    async: { type: 'boolean' },
+    callback_url: nonEmptyString,
+  },
+};
+
+export const taskCompletePayloadSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    session_id: { type: 'string' },
+    project_tag: { type: 'string' },
+    summary: { type: 'string' },
+  },
+};
+
+export const permissionRequestPayloadSchema: JsonSchema = {
+  type: 'object',
+  required: ['tool_name'],
+  properties: {
+    project_tag: { type: 'string' },
+    tool_name: nonEmptyString,
+    tool_input: { type: 'object' },
+    preview: { type: 'string' },
+    timeout_seconds: timeoutSeconds,
+    idempotency_key: nonEmptyString,
+  },
+};
+
+export const pairRequestPayloadSchema: JsonSchema = {
+  type: 'object',
+  required: ['code', 'device_name'],
+  properties: {
+    code: nonEmptyString,
+    device_name: { type: 'string', pattern: '\\S' },
+  },
+};
+
+function majorVersion(version: string): string {
+  return version.split('.')[0];
+}
+
+/**
+ * Route middleware, after validateBody: accept the payload's version if this
+ * listener supports its major version, and say which version it was read as.
+ */
+export function negotiatePayloadVersion(kind: PayloadKind) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const requested = String((req.body as { version?: string }).version ?? DEFAULT_PAYLOAD_VERSION);
+    const supported = SUPPORTED_PAYLOAD_VERSIONS[kind];
+    const compatible = supported.filter((version) => majorVersion(version) === majorVersion(requested));
+
+    if (compatible.length === 0) {
+      const majors = Array.from(new Set(supported.map((version) => `${majorVersion(version)}.x`)));
+      const response: ErrorResponse = {
+        error: 'Unsupported payload version',
+        details: `${kind} payload version ${requested} is not supported; this listener accepts ${majors.join(', ')}`,
+        supported_versions: supported,
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    res.set(PAYLOAD_VERSION_HEADER, compatible[compatible.length - 1]);
+    next();
+  };
+}
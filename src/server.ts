@@ -1,16 +1,18 @@
 import express, { Request, Response, NextFunction } from 'express';
-import * as crypto from 'crypto';
 import * as fs from 'fs';
+import * as path from 'path';
 import * as http from 'http';
 import * as https from 'https';
 import { Server } from 'http';
 import {
   Config,
+  ProjectConfig,
   ConversationPayload,
   HealthResponse,
   ProjectsResponse,
   ProjectStatus,
   ConversationSuccessResponse,
+  ContinuationReconciliation,
   ErrorResponse,
   BriefResponse,
   BriefGeneratorPromptResponse,
@@ -20,65 +22,195 @@ import {
   InputRequestPayload,
   InputRequestResponse,
   InputRequestErrorResponse,
+  InputRequestAcceptedResponse,
+  TaskCompleteRequestPayload,
+  TaskCompleteResponse,
+  PermissionDecision,
+  PermissionRequestBody,
+  PermissionRequestResponse,
+  NetworkStatusResponse,
+  ConversationsListResponse,
+  ConversationDetailResponse,
+  ConversationSearchResponse,
+  NotesListResponse,
+  NoteDetailResponse,
+  NoteUpdatePayload,
+  NoteUpdateResponse,
+  NoteDeleteResponse,
+  PairRequestPayload,
+  PairResponse,
 } from './types';
-import { monitoringManager } from './monitoring';
+import { monitoringManager, toInputRequestStatusResponse } from './monitoring';
 import {
   loadConfig,
-  loadConversationsIndex,
-  saveConversationsIndex,
-  loadNotesIndex,
-  saveNotesIndex,
+  getConversationsStore,
+  getNotesStore,
   validateProjectPath,
   resolvePath,
   projectHasBrief,
   loadProjectBrief,
   loadBriefGeneratorPrompt,
+  loadPermissions,
 } from './config';
-import { saveConversation, saveNote } from './markdown';
-import { getLogger } from './logger';
+import { saveConversation, saveNote, parseNoteMarkdown, updateNoteMarkdown } from './markdown';
+import { NoteFilters, listNotes, toNoteSummary } from './notes';
+import {
+  ConversationFilters,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  listConversations,
+  readConversationFile,
+  searchConversations,
+} from './conversations';
+import { getLogger, registerLogSecret, redactContent, redactPath } from './logger';
+import { McpServer, McpBackend } from './mcp';
+import { startPortMapping, stopPortMapping, getPortMappingStatus } from './upnp';
+import { getSocketActivationFd } from './service';
+import { authenticateToken, parseBearerToken } from './auth';
+import { listDevices } from './devices';
+import { redeemPairingCode } from './pairing';
+import { PathValidationError } from './safe-path';
+import { deriveConversationKey, deriveNoteKey, forgetResponsesFor, idempotency } from './idempotency';
+import { sendValidationError, validate, validateBody } from './validation';
+import {
+  SUPPORTED_PAYLOAD_VERSIONS,
+  conversationPayloadSchema,
+  inputRequestPayloadSchema,
+  negotiatePayloadVersion,
+  notePayloadSchema,
+  noteUpdatePayloadSchema,
+  pairRequestPayloadSchema,
+  permissionRequestPayloadSchema,
+  taskCompletePayloadSchema,
+} from './schemas';
+import { applyRateLimitConfig, checkRateLimit, normalizeIp, recordAuthFailure, recordAuthSuccess } from './rate-limit';
+import {
+  PERMISSION_DECISIONS,
+  addPermissionRule,
+  buildPermissionPreview,
+  findPermissionRule,
+  getPermissionSpecifier,
+} from './permissions';
 
 const VERSION = '1.0.0';
 let startTime: number;
 let server: Server | null = null;
 let currentConfig: Config | null = null;
 
-function constantTimeCompare(a: string, b: string): boolean {
-  if (a.length !== b.length) {
-    // Still do comparison to avoid timing leak on length check
-    crypto.timingSafeEqual(Buffer.from(a), Buffer.from(a));
+// 429 with Retry-After when checkRateLimit refuses a client
+function rejectIfLimited(ip: string, res: Response): boolean {
+  const limit = checkRateLimit(ip);
+  if (limit.allowed) {
     return false;
   }
-  return crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+  const response: ErrorResponse = {
+    error: limit.reason === 'locked' ? 'Too many failed auth attempts' : 'Too many requests',
+    details: `Retry after ${limit.retry_after} seconds`,
+  };
+  res.set('Retry-After', String(limit.retry_after));
+  res.status(429).json(response);
+  return true;
 }
 
 function authMiddleware(req: Request, res: Response, next: NextFunction): void {
-  const authHeader = req.headers.authorization;
+  const ip = normalizeIp(req.socket.remoteAddress);
+  if (rejectIfLimited(ip, res)) {
+    return;
+  }
 
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+  const token = parseBearerToken(req.headers.authorization);
+  if (!token) {
+    recordAuthFailure(ip);
     const response: ErrorResponse = { error: 'Invalid or missing auth token' };
     res.status(401).json(response);
     return;
   }
 
-  const token = authHeader.slice(7);
   const config = currentConfig || loadConfig();
 
-  if (!config.listener.auth_token) {
+  if (!config.listener.auth_token && listDevices().length === 0) {
     const response: ErrorResponse = { error: 'Auth token not configured on listener' };
     res.status(500).json(response);
     return;
   }
 
-  if (!constantTimeCompare(token, config.listener.auth_token)) {
-    getLogger().warn('Authentication failed: invalid token');
+  const identity = authenticateToken(token, config, ip);
+  if (!identity) {
+    getLogger().warn(`Authentication failed: invalid token from ${ip}`);
+    recordAuthFailure(ip);
     const response: ErrorResponse = { error: 'Invalid or missing auth token' };
     res.status(401).json(response);
     return;
   }
 
+  recordAuthSuccess(ip);
+  // Available to handlers as res.locals.identity
+  res.locals.identity = identity;
   next();
 }
 
+// 400 for a filename that is unsafe or would land outside the project
+function sendPathValidationError(res: Response, err: PathValidationError, project?: string): void {
+  getLogger().warn(`Rejected file path: ${err.message} (${err.details})`, { project });
+  const response: ErrorResponse = { error: err.message, project, details: err.details };
+  res.status(400).json(response);
+}
+
+interface ListQuery {
+  filters: ConversationFilters;
+  limit: number;
+  offset: number;
+}
+
+function parseDateParam(value: unknown, name: string): Date | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid ${name} date: ${value}`);
+  }
+  return date;
+}
+
+function parseIntParam(value: unknown, name: string, fallback: number, min: number, max: number): number {
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+  const parsed = parseInt(String(value), 10);
+  if (isNaN(parsed) || parsed < min || parsed > max) {
+    throw new Error(`Invalid ${name}: must be between ${min} and ${max}`);
+  }
+  return parsed;
+}
+
+// Shared query parameters for list endpoints: project, since, until, limit, offset
+function parseListQuery(req: Request): ListQuery {
+  return {
+    filters: {
+      project: req.query.project ? String(req.query.project) : undefined,
+      since: parseDateParam(req.query.since, 'since'),
+      until: parseDateParam(req.query.until, 'until'),
+    },
+    limit: parseIntParam(req.query.limit, 'limit', DEFAULT_PAGE_SIZE, 1, MAX_PAGE_SIZE),
+    offset: parseIntParam(req.query.offset, 'offset', 0, 0, Number.MAX_SAFE_INTEGER),
+  };
+}
+
+// Callbacks may only target this machine; the listener must not be usable to reach other hosts
+function isLocalCallbackUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return (
+      (url.protocol === 'http:' || url.protocol === 'https:') &&
+      ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname)
+    );
+  } catch {
+    return false;
+  }
+}
+
 function getProjectStatuses(config: Config): ProjectStatus[] {
   return config.projects.map((project) => {
     const validation = validateProjectPath(project.path);
@@ -92,11 +224,119 @@ function getProjectStatuses(config: Config): ProjectStatus[] {
   });
 }
 
+// Continuations that didn't line up with the saved history are worth a warning
+function logReconciliation(reconciliation: ContinuationReconciliation | undefined, projectTag: string): void {
+  const logger = getLogger();
+  switch (reconciliation?.status) {
+    case 'count_mismatch':
+      logger.warn(
+        `Continuation's previous_message_count (${reconciliation.previous_message_count}) didn't match the ` +
+          `${reconciliation.stored_message_count} saved messages; appended ${reconciliation.messages_added}`,
+        { project: projectTag }
+      );
+      break;
+    case 'revised':
+      logger.warn(
+        `Continuation edits saved history from message ${reconciliation.divergence_index + 1}; ` +
+          `wrote a revision replacing ${reconciliation.messages_revised} message(s)`,
+        { project: projectTag }
+      );
+      break;
+    case 'missing_file':
+      logger.warn(
+        reconciliation.previous_file
+          ? `Continuation's file is missing (${redactPath(reconciliation.previous_file)}); started a new file`
+          : 'Continuation of a conversation that was never saved; started a new file',
+        { project: projectTag }
+      );
+      break;
+  }
+}
+
+// Save a note and record it in the notes index, rewriting the existing file
+// if this note_id was saved before. A note sent under a different project tag
+// moves: it is written to the new project and its old file is removed.
+function storeNote(payload: NotePayload, project: ProjectConfig, config: Config): NoteSuccessResponse {
+  const logger = getLogger();
+  const notes = getNotesStore();
+  const existing = notes.get(payload.note_id);
+  const movedFrom = existing && existing.project_tag !== payload.project_tag ? existing : null;
+  const result = saveNote(payload, project, config.export, movedFrom ? null : existing?.file_path || null);
+  if (movedFrom) {
+    fs.rmSync(movedFrom.file_path, { force: true });
+    result.action = 'updated';
+    logger.info(`→ Note moved from ${movedFrom.project_tag} to ${project.tag}`, { project: project.tag });
+  }
+  forgetResponsesFor(`note:${payload.note_id}`);
+
+  notes.update(payload.note_id, (existingEntry) => ({
+    project_tag: payload.project_tag,
+    file_path: result.path,
+    type: payload.type,
+    title: payload.title,
+    created_at: existingEntry?.created_at || payload.timestamp,
+    ...(result.action === 'updated' && { updated_at: payload.timestamp }),
+    completed: payload.completed,
+    priority: payload.priority,
+  }));
+
+  const typeLabel = payload.type === 'todo' ? 'Todo' : 'Note';
+  logger.info(`→ ${typeLabel} ${result.action === 'created' ? 'saved' : 'updated'}: ${project.tag}/${redactPath(result.file)}`, { project: project.tag });
+
+  return {
+    success: true,
+    action: result.action,
+    file: result.file,
+    path: result.path,
+    type: payload.type,
+  };
+}
+
+// MCP tools served from the listener process talk to the monitoring manager directly
+function createInProcessMcpBackend(config: Config): McpBackend {
+  return {
+    async askMobileUser(payload) {
+      const options = payload.options || [];
+      return monitoringManager.requestMobileInput(
+        payload.project_tag || 'unknown',
+        payload.prompt,
+        options,
+        payload.input_type || (options.length > 0 ? 'numeric' : 'text'),
+        payload.timeout_seconds ? payload.timeout_seconds * 1000 : undefined
+      );
+    },
+
+    async notifyTaskComplete(payload) {
+      return monitoringManager.notifyTaskComplete(
+        payload.session_id || `task_${Date.now()}`,
+        payload.project_tag || 'unknown',
+        payload.summary
+      );
+    },
+
+    async saveNote(payload) {
+      const project = config.projects.find((p) => p.tag === payload.project_tag);
+      if (!project) {
+        throw new Error(`Unknown project tag: ${payload.project_tag}`);
+      }
+      const validation = validateProjectPath(project.path);
+      if (!validation.valid) {
+        throw new Error(`Project path unavailable: ${validation.error}: ${resolvePath(project.path)}`);
+      }
+      return storeNote(payload, project, config);
+    },
+  };
+}
+
 export function createApp(config: Config): express.Application {
   currentConfig = config;
   const app = express();
   const logger = getLogger();
 
+  // Mask the shared token if it ever ends up in a log line
+  registerLogSecret(config.listener.auth_token);
+  applyRateLimitConfig(config.rate_limit);
+
   app.use(express.json({ limit: '10mb' }));
 
   // Request logging middleware
@@ -116,10 +356,48 @@ export function createApp(config: Config): express.Application {
       version: VERSION,
       listener_id: config.listener.id,
       uptime,
+      payload_versions: SUPPORTED_PAYLOAD_VERSIONS,
     };
     res.json(response);
   });
 
+  // Pairing endpoint - the one-time code from `tt pair` stands in for the auth token
+  app.post('/pair', (req: Request, res: Response) => {
+    const ip = normalizeIp(req.socket.remoteAddress);
+    if (rejectIfLimited(ip, res)) {
+      return;
+    }
+
+    const payload = (req.body || {}) as PairRequestPayload;
+
+    // Checked here rather than by middleware so malformed requests still count against the rate limit
+    const errors = validate(payload, pairRequestPayloadSchema);
+    if (errors.length > 0) {
+      sendValidationError(res, errors);
+      return;
+    }
+
+    try {
+      const { device, token } = redeemPairingCode(payload.code, payload.device_name.trim());
+      recordAuthSuccess(ip);
+      logger.info(`→ Paired device: ${device.name} (${device.id})`);
+
+      const response: PairResponse = {
+        success: true,
+        listener_id: config.listener.id,
+        device_id: device.id,
+        device_name: device.name,
+        token,
+      };
+      res.json(response);
+    } catch (err) {
+      logger.warn(`Pairing failed from ${ip}: ${(err as Error).message}`);
+      recordAuthFailure(ip);
+      const response: ErrorResponse = { error: (err as Error).message };
+      res.status(401).json(response);
+    }
+  });
+
   // Projects endpoint - auth required
   app.get('/projects', authMiddleware, (_req: Request, res: Response) => {
     logger.info(`→ Projects list (${config.projects.length} projects)`);
@@ -130,20 +408,28 @@ export function createApp(config: Config): express.Application {
     res.json(response);
   });
 
+  // Network status endpoint - router port mapping, auth required
+  app.get('/network/status', authMiddleware, (_req: Request, res: Response) => {
+    const response: NetworkStatusResponse = {
+      port_mapping: getPortMappingStatus(),
+    };
+    res.json(response);
+  });
+
   // Project brief endpoint - auth required
   app.get('/projects/:tag/brief', authMiddleware, (req: Request, res: Response) => {
     const { tag } = req.params;
 
     const project = config.projects.find((p) => p.tag === tag);
     if (!project) {
-      logger.warn(`→ Brief not found: unknown project "${tag}"`);
+      logger.warn(`→ Brief not found: unknown project "${tag}"`, { project: tag });
       const response: ErrorResponse = { error: `Unknown project tag: ${tag}` };
       res.status(404).json(response);
       return;
     }
 
     if (!project.briefFile) {
-      logger.warn(`→ Brief not configured for "${tag}"`);
+      logger.warn(`→ Brief not configured for "${tag}"`, { project: tag });
       const response: ErrorResponse = { error: `Brief not configured for project: ${tag}` };
       res.status(404).json(response);
       return;
@@ -151,7 +437,7 @@ export function createApp(config: Config): express.Application {
 
     const briefData = loadProjectBrief(project);
     if (!briefData) {
-      logger.warn(`→ Brief file missing for "${tag}"`);
+      logger.warn(`→ Brief file missing for "${tag}"`, { project: tag });
       const response: ErrorResponse = {
         error: `Brief file not found for project: ${tag}`,
         details: `Configured path: ${project.briefFile}`,
@@ -161,7 +447,7 @@ export function createApp(config: Config): express.Application {
     }
 
     const sizeKb = (briefData.content.length / 1024).toFixed(1);
-    logger.info(`→ Brief sent: ${tag} (${sizeKb} KB)`);
+    logger.info(`→ Brief sent: ${tag} (${sizeKb} KB)`, { project: tag });
 
     const response: BriefResponse = {
       tag: project.tag,
@@ -191,17 +477,10 @@ export function createApp(config: Config): express.Application {
   });
 
   // Conversation endpoint - auth required
-  app.post('/conversation', authMiddleware, (req: Request, res: Response) => {
+  app.post('/conversation', authMiddleware, validateBody(conversationPayloadSchema), negotiatePayloadVersion('conversation'), idempotency(deriveConversationKey), (req: Request, res: Response) => {
     try {
       const payload = req.body as ConversationPayload;
 
-      // Validate required fields
-      if (!payload.conversation_id || !payload.project_tag || !payload.conversation?.messages) {
-        const response: ErrorResponse = { error: 'Missing required fields' };
-        res.status(400).json(response);
-        return;
-      }
-
       // Find project
       const project = config.projects.find((p) => p.tag === payload.project_tag);
       if (!project) {
@@ -222,36 +501,37 @@ export function createApp(config: Config): express.Application {
         return;
       }
 
-      // Load conversation index
-      const index = loadConversationsIndex();
-      const existingEntry = index[payload.conversation_id];
-      const existingFilePath = existingEntry?.file_path || null;
+      // Look up the conversation index
+      const conversations = getConversationsStore();
+      const existing = conversations.get(payload.conversation_id) || null;
 
       // Save conversation
       const result = saveConversation(
         payload,
         project,
-        existingFilePath,
-        config.export.create_directories
+        existing,
+        config.export
       );
+      forgetResponsesFor(`conversation:${payload.conversation_id}`);
 
       // Update conversation index
-      index[payload.conversation_id] = {
+      conversations.update(payload.conversation_id, (existingEntry) => ({
         project_tag: payload.project_tag,
         file_path: result.path,
         created_at: existingEntry?.created_at || payload.timestamp,
         last_updated: payload.timestamp,
-        message_count: payload.conversation.messages.length,
-      };
-      saveConversationsIndex(index);
+        message_count: result.message_hashes.length,
+        message_hashes: result.message_hashes,
+      }));
 
       // Log success
-      const msgCount = payload.conversation.messages.length;
+      const msgCount = result.message_hashes.length;
       if (result.action === 'created') {
-        logger.info(`→ Conversation saved: ${project.tag}/${result.file} (${msgCount} messages)`);
+        logger.info(`→ Conversation saved: ${project.tag}/${redactPath(result.file)} (${msgCount} messages)`, { project: project.tag });
       } else {
-        logger.info(`→ Conversation updated: ${project.tag} (+${result.messages_added} messages, ${msgCount} total)`);
+        logger.info(`→ Conversation updated: ${project.tag} (+${result.messages_added} messages, ${msgCount} total)`, { project: project.tag });
       }
+      logReconciliation(result.reconciliation, project.tag);
 
       const response: ConversationSuccessResponse = {
         success: true,
@@ -259,50 +539,136 @@ export function createApp(config: Config): express.Application {
         file: result.file,
         path: result.path,
         ...(result.messages_added !== undefined && { messages_added: result.messages_added }),
+        ...(result.reconciliation && { reconciliation: result.reconciliation }),
       };
 
-      res.status(result.action === 'created' ? 201 : 200).json(response);
+      res.status(response.action === 'created' ? 201 : 200).json(response);
     } catch (err) {
+      if (err instanceof PathValidationError) {
+        sendPathValidationError(res, err, (req.body as ConversationPayload)?.project_tag);
+        return;
+      }
       logger.error('Error processing conversation', { error: (err as Error).message });
       const response: ErrorResponse = { error: 'Internal server error' };
       res.status(500).json(response);
     }
   });
 
+  // Conversation list endpoint - auth required
+  app.get('/conversations', authMiddleware, (req: Request, res: Response) => {
+    let query: ListQuery;
+    try {
+      query = parseListQuery(req);
+    } catch (err) {
+      const response: ErrorResponse = { error: 'Invalid query', details: (err as Error).message };
+      res.status(400).json(response);
+      return;
+    }
+
+    const page = listConversations(getConversationsStore(), query.filters, query.limit, query.offset);
+    logger.info(`→ Conversations list (${page.items.length} of ${page.total})`);
+
+    const response: ConversationsListResponse = {
+      conversations: page.items,
+      total: page.total,
+      limit: query.limit,
+      offset: query.offset,
+    };
+    res.json(response);
+  });
+
+  // Conversation search endpoint - auth required
+  // Registered before /conversations/:id so "search" is not taken as an ID
+  app.get('/conversations/search', authMiddleware, (req: Request, res: Response) => {
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    if (!q) {
+      const response: ErrorResponse = { error: 'Missing required query parameter: q' };
+      res.status(400).json(response);
+      return;
+    }
+
+    let query: ListQuery;
+    try {
+      query = parseListQuery(req);
+    } catch (err) {
+      const response: ErrorResponse = { error: 'Invalid query', details: (err as Error).message };
+      res.status(400).json(response);
+      return;
+    }
+
+    try {
+      const page = searchConversations(getConversationsStore(), q, query.filters, query.limit, query.offset);
+      logger.info(`→ Conversation search (${page.total} matching conversations)`);
+
+      const response: ConversationSearchResponse = {
+        query: q,
+        results: page.items,
+        total: page.total,
+        limit: query.limit,
+        offset: query.offset,
+      };
+      res.json(response);
+    } catch (err) {
+      logger.error('Error searching conversations', { error: (err as Error).message });
+      const response: ErrorResponse = { error: 'Internal server error' };
+      res.status(500).json(response);
+    }
+  });
+
+  // Conversation detail endpoint - auth required
+  app.get('/conversations/:id', authMiddleware, (req: Request, res: Response) => {
+    const id = String(req.params.id);
+    const entry = getConversationsStore().get(id);
+
+    if (!entry) {
+      const response: ErrorResponse = { error: `Unknown conversation: ${id}` };
+      res.status(404).json(response);
+      return;
+    }
+
+    if (!fs.existsSync(entry.file_path)) {
+      logger.warn(`→ Conversation file missing: ${id}`);
+      const response: ErrorResponse = {
+        error: `Conversation file not found: ${id}`,
+        project: entry.project_tag,
+        details: `Indexed path: ${entry.file_path}`,
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    try {
+      const parsed = readConversationFile(entry.file_path);
+      logger.info(`→ Conversation sent: ${entry.project_tag}/${id} (${parsed.messages.length} messages)`, { project: entry.project_tag });
+
+      const response: ConversationDetailResponse = {
+        conversation_id: id,
+        project_tag: entry.project_tag,
+        file: path.basename(entry.file_path),
+        created_at: entry.created_at,
+        last_updated: entry.last_updated,
+        message_count: entry.message_count,
+        format: parsed.format,
+        messages: parsed.messages,
+      };
+      res.json(response);
+    } catch (err) {
+      logger.error('Error reading conversation', { error: (err as Error).message });
+      const response: ErrorResponse = { error: 'Internal server error' };
+      res.status(500).json(response);
+    }
+  });
+
   // Note endpoint - auth required
-  app.post('/note', authMiddleware, (req: Request, res: Response) => {
+  app.post('/note', authMiddleware, validateBody(notePayloadSchema), negotiatePayloadVersion('note'), idempotency(deriveNoteKey), (req: Request, res: Response) => {
     try {
       const payload = req.body as NotePayload;
 
-      // Validate required fields
-      if (!payload.note_id) {
-        const response: ErrorResponse = { error: 'Missing required field: note_id' };
-        res.status(400).json(response);
-        return;
-      }
-      if (!payload.project_tag) {
-        const response: ErrorResponse = { error: 'Missing required field: project_tag' };
-        res.status(400).json(response);
-        return;
-      }
-      if (!payload.content) {
-        const response: ErrorResponse = { error: 'Missing required field: content' };
-        res.status(400).json(response);
-        return;
-      }
-
       // Default type to 'note' if not specified
       if (!payload.type) {
         payload.type = 'note';
       }
 
-      // Validate type
-      if (payload.type !== 'note' && payload.type !== 'todo') {
-        const response: ErrorResponse = { error: 'Invalid type: must be "note" or "todo"' };
-        res.status(400).json(response);
-        return;
-      }
-
       // Find project
       const project = config.projects.find((p) => p.tag === payload.project_tag);
       if (!project) {
@@ -323,36 +689,189 @@ export function createApp(config: Config): express.Application {
         return;
       }
 
-      // Save note
-      const result = saveNote(payload, project, config.export.create_directories);
+      const response = storeNote(payload, project, config);
 
-      // Update notes index
-      const index = loadNotesIndex();
-      index[payload.note_id] = {
-        project_tag: payload.project_tag,
-        file_path: result.path,
-        type: payload.type,
-        title: payload.title,
-        created_at: payload.timestamp,
-        completed: payload.completed,
+      res.status(response.action === 'created' ? 201 : 200).json(response);
+    } catch (err) {
+      if (err instanceof PathValidationError) {
+        sendPathValidationError(res, err, (req.body as NotePayload)?.project_tag);
+        return;
+      }
+      logger.error('Error processing note', { error: (err as Error).message });
+      const response: ErrorResponse = { error: 'Internal server error' };
+      res.status(500).json(response);
+    }
+  });
+
+  // Notes list endpoint - auth required
+  app.get('/notes', authMiddleware, (req: Request, res: Response) => {
+    let query: ListQuery;
+    let filters: NoteFilters;
+    try {
+      query = parseListQuery(req);
+      const type = req.query.type;
+      if (type !== undefined && type !== 'note' && type !== 'todo') {
+        throw new Error('Invalid type: must be "note" or "todo"');
+      }
+      const completed = req.query.completed;
+      if (completed !== undefined && completed !== 'true' && completed !== 'false') {
+        throw new Error('Invalid completed: must be "true" or "false"');
+      }
+      filters = {
+        ...query.filters,
+        ...(type && { type }),
+        ...(completed !== undefined && { completed: completed === 'true' }),
+      };
+    } catch (err) {
+      const response: ErrorResponse = { error: 'Invalid query', details: (err as Error).message };
+      res.status(400).json(response);
+      return;
+    }
+
+    const page = listNotes(getNotesStore(), filters, query.limit, query.offset);
+    logger.info(`→ Notes list (${page.items.length} of ${page.total})`);
+
+    const response: NotesListResponse = {
+      notes: page.items,
+      total: page.total,
+      limit: query.limit,
+      offset: query.offset,
+    };
+    res.json(response);
+  });
+
+  // Note detail endpoint - auth required
+  app.get('/notes/:id', authMiddleware, (req: Request, res: Response) => {
+    const id = String(req.params.id);
+    const entry = getNotesStore().get(id);
+
+    if (!entry) {
+      const response: ErrorResponse = { error: `Unknown note: ${id}` };
+      res.status(404).json(response);
+      return;
+    }
+
+    if (!fs.existsSync(entry.file_path)) {
+      logger.warn(`→ Note file missing: ${id}`);
+      const response: ErrorResponse = {
+        error: `Note file not found: ${id}`,
+        project: entry.project_tag,
+        details: `Indexed path: ${entry.file_path}`,
       };
-      saveNotesIndex(index);
+      res.status(404).json(response);
+      return;
+    }
 
-      // Log success
-      const typeLabel = payload.type === 'todo' ? 'Todo' : 'Note';
-      logger.info(`→ ${typeLabel} saved: ${project.tag}/${result.file}`);
+    // The file is the source of truth; it may have been edited on the desktop
+    const parsed = parseNoteMarkdown(fs.readFileSync(entry.file_path, 'utf-8'));
+    logger.info(`→ Note sent: ${entry.project_tag}/${id}`, { project: entry.project_tag });
+
+    const response: NoteDetailResponse = {
+      ...toNoteSummary(id, entry),
+      title: parsed.title,
+      ...(parsed.completed !== undefined && { completed: parsed.completed }),
+      ...(parsed.priority && { priority: parsed.priority }),
+      content: parsed.content,
+    };
+    res.json(response);
+  });
+
+  // Note update endpoint - auth required
+  app.patch('/notes/:id', authMiddleware, validateBody(noteUpdatePayloadSchema), (req: Request, res: Response) => {
+    try {
+      const id = String(req.params.id);
+      const update = (req.body || {}) as NoteUpdatePayload;
+      const notes = getNotesStore();
+      const stored = notes.get(id);
+
+      if (!stored) {
+        const response: ErrorResponse = { error: `Unknown note: ${id}` };
+        res.status(404).json(response);
+        return;
+      }
+      const entry = { ...stored };
+
+      if (update.completed !== undefined && entry.type !== 'todo') {
+        const response: ErrorResponse = { error: 'Only todos can be marked completed' };
+        res.status(400).json(response);
+        return;
+      }
+
+      if (!fs.existsSync(entry.file_path)) {
+        const response: ErrorResponse = {
+          error: `Note file not found: ${id}`,
+          project: entry.project_tag,
+          details: `Indexed path: ${entry.file_path}`,
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      const timestamp = update.timestamp || new Date().toISOString();
+      const existing = fs.readFileSync(entry.file_path, 'utf-8');
+      fs.writeFileSync(entry.file_path, updateNoteMarkdown(existing, { ...update, timestamp }), 'utf-8');
+
+      if (update.title !== undefined) {
+        entry.title = update.title;
+      }
+      if (update.completed !== undefined) {
+        entry.completed = update.completed;
+      }
+      if (update.priority !== undefined) {
+        if (update.priority === null) {
+          delete entry.priority;
+        } else {
+          entry.priority = update.priority;
+        }
+      }
+      entry.updated_at = timestamp;
+      notes.put(id, entry);
+      forgetResponsesFor(`note:${id}`);
 
-      const response: NoteSuccessResponse = {
+      logger.info(`→ Note updated: ${entry.project_tag}/${redactPath(path.basename(entry.file_path))}`, { project: entry.project_tag });
+
+      const response: NoteUpdateResponse = {
         success: true,
-        action: 'created',
-        file: result.file,
-        path: result.path,
-        type: payload.type,
+        action: 'updated',
+        note: toNoteSummary(id, entry),
       };
+      res.json(response);
+    } catch (err) {
+      logger.error('Error updating note', { error: (err as Error).message });
+      const response: ErrorResponse = { error: 'Internal server error' };
+      res.status(500).json(response);
+    }
+  });
+
+  // Note delete endpoint - auth required
+  app.delete('/notes/:id', authMiddleware, (req: Request, res: Response) => {
+    try {
+      const id = String(req.params.id);
+      const notes = getNotesStore();
+      const entry = notes.get(id);
+
+      if (!entry) {
+        const response: ErrorResponse = { error: `Unknown note: ${id}` };
+        res.status(404).json(response);
+        return;
+      }
+
+      if (fs.existsSync(entry.file_path)) {
+        fs.unlinkSync(entry.file_path);
+      }
+      notes.delete(id);
+      forgetResponsesFor(`note:${id}`);
+
+      logger.info(`→ Note deleted: ${entry.project_tag}/${redactPath(path.basename(entry.file_path))}`, { project: entry.project_tag });
 
-      res.status(201).json(response);
+      const response: NoteDeleteResponse = {
+        success: true,
+        action: 'deleted',
+        note_id: id,
+      };
+      res.json(response);
     } catch (err) {
-      logger.error('Error processing note', { error: (err as Error).message });
+      logger.error('Error deleting note', { error: (err as Error).message });
       const response: ErrorResponse = { error: 'Internal server error' };
       res.status(500).json(response);
     }
@@ -382,24 +901,14 @@ export function createApp(config: Config): express.Application {
   });
 
   // Input request endpoint - for Claude Code to request mobile input
-  // This endpoint blocks until a response is received or timeout
-  app.post('/input-request', authMiddleware, async (req: Request, res: Response) => {
+  // This endpoint blocks until a response is received or timeout,
+  // unless "async": true is set, in which case it returns 202 with a request ID to poll
+  app.post('/input-request', authMiddleware, validateBody(inputRequestPayloadSchema), idempotency(), async (req: Request, res: Response) => {
     const startTime = Date.now();
 
     try {
       const payload = req.body as InputRequestPayload;
 
-      // Validate required fields
-      if (!payload.prompt) {
-        const response: InputRequestErrorResponse = {
-          success: false,
-          error: 'Missing required field: prompt',
-          connected_devices: monitoringManager.getConnectedDeviceCount(),
-        };
-        res.status(400).json(response);
-        return;
-      }
-
       const connectedDevices = monitoringManager.getConnectedDeviceCount();
       const apnsEnabled = monitoringManager.isApnsEnabled();
 
@@ -411,8 +920,45 @@ export function createApp(config: Config): express.Application {
       const options = payload.options || [];
       const inputType = payload.input_type || (options.length > 0 ? 'numeric' : 'text');
       const timeoutMs = payload.timeout_seconds ? payload.timeout_seconds * 1000 : undefined; // Use configured default
+      const idempotencyKey = req.get('Idempotency-Key') || payload.idempotency_key || undefined;
 
-      logger.info(`← Input request: "${payload.prompt}" (${connectedDevices} connected, APNs: ${apnsEnabled ? 'yes' : 'no'})`);
+      if (payload.callback_url && !isLocalCallbackUrl(payload.callback_url)) {
+        const response: InputRequestErrorResponse = {
+          success: false,
+          error: 'Invalid callback_url: must be an http(s) URL on localhost',
+          connected_devices: connectedDevices,
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      logger.info(`← Input request: ${redactContent(payload.prompt)} (${connectedDevices} connected, APNs: ${apnsEnabled ? 'yes' : 'no'}${payload.async ? ', async' : ''})`);
+
+      if (payload.async) {
+        const { sessionId, response: pendingResponse } = monitoringManager.startInputRequest({
+          projectTag,
+          prompt: payload.prompt,
+          options,
+          inputType,
+          timeoutMs,
+          idempotencyKey,
+          callbackUrl: payload.callback_url,
+        });
+        // Nobody awaits the answer here; callers poll or receive the callback instead
+        pendingResponse.catch(() => undefined);
+
+        const status = monitoringManager.getInputRequestStatus(sessionId)?.status || 'pending';
+        logger.info(`→ Input request accepted: ${sessionId} (${status})`);
+
+        const response: InputRequestAcceptedResponse = {
+          success: true,
+          request_id: sessionId,
+          status,
+          status_url: `/input-request/${sessionId}`,
+        };
+        res.status(202).json(response);
+        return;
+      }
 
       // Request input from mobile and wait for response
       const userResponse = await monitoringManager.requestMobileInput(
@@ -420,11 +966,12 @@ export function createApp(config: Config): express.Application {
         payload.prompt,
         options,
         inputType,
-        timeoutMs
+        timeoutMs,
+        idempotencyKey
       );
 
       const responseTimeMs = Date.now() - startTime;
-      logger.info(`→ Input response received: "${userResponse}" (${responseTimeMs}ms)`);
+      logger.info(`→ Input response received: ${redactContent(userResponse)} (${responseTimeMs}ms)`);
 
       const response: InputRequestResponse = {
         success: true,
@@ -450,6 +997,174 @@ export function createApp(config: Config): express.Application {
     }
   });
 
+  // Task complete endpoint - lets Claude Code hooks tell the phone a task finished
+  app.post('/task-complete', authMiddleware, validateBody(taskCompletePayloadSchema), (req: Request, res: Response) => {
+    const payload = (req.body || {}) as TaskCompleteRequestPayload;
+    const sessionId = payload.session_id || `task_${Date.now()}`;
+    const projectTag = payload.project_tag || 'unknown';
+
+    logger.info(`← Task complete: ${projectTag} (session: ${sessionId})`, { project: projectTag });
+    const notified = monitoringManager.notifyTaskComplete(sessionId, projectTag, payload.summary);
+
+    const response: TaskCompleteResponse = {
+      success: true,
+      notified_devices: notified,
+    };
+    res.json(response);
+  });
+
+  // Tool permission request - asks the phone to allow or deny a Claude Code tool call,
+  // answering from the project's allowlist when a rule matches
+  app.post('/permission-request', authMiddleware, validateBody(permissionRequestPayloadSchema), async (req: Request, res: Response) => {
+    try {
+      const payload = (req.body || {}) as PermissionRequestBody;
+
+      const projectTag = payload.project_tag || 'unknown';
+      const toolInput = payload.tool_input || {};
+      const specifier = getPermissionSpecifier(payload.tool_name, toolInput);
+
+      const rule = findPermissionRule(loadPermissions(), projectTag, payload.tool_name, toolInput);
+      if (rule) {
+        logger.info(`→ Permission allowed by allowlist: ${projectTag}/${payload.tool_name}${specifier ? ` (${redactContent(specifier)})` : ''}`, { project: projectTag });
+        const response: PermissionRequestResponse = {
+          success: true,
+          decision: 'allow',
+          source: 'allowlist',
+          rule,
+        };
+        res.json(response);
+        return;
+      }
+
+      const summary = specifier ? `${payload.tool_name}: ${specifier}` : payload.tool_name;
+      const loggedSummary = specifier ? `${payload.tool_name}: ${redactContent(specifier)}` : payload.tool_name;
+      logger.info(`← Permission request: ${projectTag}/${loggedSummary}`, { project: projectTag });
+
+      const permissionKey = req.get('Idempotency-Key') || payload.idempotency_key || undefined;
+      const { sessionId, response: decisionPromise } = monitoringManager.startInputRequest({
+        projectTag,
+        prompt: `Allow ${summary.length > 200 ? summary.slice(0, 199) + '…' : summary}?`,
+        options: PERMISSION_DECISIONS,
+        inputType: 'text',
+        timeoutMs: payload.timeout_seconds ? payload.timeout_seconds * 1000 : undefined,
+        // Own namespace, so an input request's answer sent with the same key is never taken as a decision
+        idempotencyKey: permissionKey && `permission:${permissionKey}`,
+        permission: {
+          toolName: payload.tool_name,
+          toolInput,
+          preview: payload.preview || buildPermissionPreview(payload.tool_name, toolInput),
+        },
+      });
+
+      const answer = await decisionPromise;
+      const respondedBy = monitoringManager.getInputRequestStatus(sessionId)?.respondedBy;
+
+      // Anything other than one of the offered decisions is treated as a refusal
+      let decision: PermissionDecision = 'deny';
+      if ((PERMISSION_DECISIONS as string[]).includes(answer)) {
+        decision = answer as PermissionDecision;
+      } else {
+        logger.warn(`Permission request got an answer that is not a decision (${redactContent(answer)}); denying`, { project: projectTag });
+      }
+      logger.info(`→ Permission ${decision}: ${projectTag}/${loggedSummary}`, { project: projectTag });
+
+      const response: PermissionRequestResponse = {
+        success: true,
+        decision: decision === 'deny' ? 'deny' : 'allow',
+        source: 'mobile',
+        ...(respondedBy && { responded_by: respondedBy }),
+        ...(decision === 'always_allow' && {
+          rule: addPermissionRule(projectTag, payload.tool_name, specifier, respondedBy || 'mobile', true),
+        }),
+      };
+      res.json(response);
+    } catch (err) {
+      const error = err as Error;
+      logger.error('Permission request failed', { error: error.message });
+
+      const response: InputRequestErrorResponse = {
+        success: false,
+        error: error.message,
+        connected_devices: monitoringManager.getConnectedDeviceCount(),
+      };
+      const statusCode = error.message.includes('timed out') ? 504 : 503;
+      res.status(statusCode).json(response);
+    }
+  });
+
+  // MCP over HTTP (streamable HTTP transport, JSON responses only) - opt-in
+  if (config.mcp?.http_enabled) {
+    const mcpServer = new McpServer(config, createInProcessMcpBackend(config), VERSION);
+
+    app.post('/mcp', authMiddleware, async (req: Request, res: Response) => {
+      const response = await mcpServer.handleMessage(req.body);
+      if (!response) {
+        res.status(202).end();
+        return;
+      }
+      res.json(response);
+    });
+
+    // No server-initiated stream or sessions to open or close
+    app.all('/mcp', authMiddleware, (_req: Request, res: Response) => {
+      res.set('Allow', 'POST').status(405).end();
+    });
+  }
+
+  // Input request status endpoint - for polling async requests
+  app.get('/input-request/:id', authMiddleware, (req: Request, res: Response) => {
+    const id = String(req.params.id);
+    const record = monitoringManager.getInputRequestStatus(id);
+
+    if (!record) {
+      const response: ErrorResponse = { error: `Unknown input request: ${id}` };
+      res.status(404).json(response);
+      return;
+    }
+
+    res.json(toInputRequestStatusResponse(record));
+  });
+
+  // Input request cancel endpoint
+  app.delete('/input-request/:id', authMiddleware, (req: Request, res: Response) => {
+    const id = String(req.params.id);
+    const record = monitoringManager.getInputRequestStatus(id);
+
+    if (!record) {
+      const response: ErrorResponse = { error: `Unknown input request: ${id}` };
+      res.status(404).json(response);
+      return;
+    }
+
+    if (record.status !== 'pending') {
+      const response: ErrorResponse = {
+        error: `Input request already ${record.status}: ${id}`,
+      };
+      res.status(409).json(response);
+      return;
+    }
+
+    monitoringManager.cancelInputRequest(id);
+    logger.info(`→ Input request cancelled: ${id}`);
+
+    res.json(toInputRequestStatusResponse(monitoringManager.getInputRequestStatus(id)!));
+  });
+
+  // Bodies express.json couldn't read get a JSON error like any other bad request
+  app.use((err: Error & { type?: string; status?: number }, _req: Request, res: Response, next: NextFunction) => {
+    if (err.type === 'entity.parse.failed') {
+      const response: ErrorResponse = { error: 'Invalid JSON', details: err.message };
+      res.status(400).json(response);
+      return;
+    }
+    if (err.type === 'entity.too.large') {
+      const response: ErrorResponse = { error: 'Request body too large', details: err.message };
+      res.status(413).json(response);
+      return;
+    }
+    next(err);
+  });
+
   return app;
 }
 
@@ -464,6 +1179,11 @@ export function startServer(config: Config): Promise<ServerInfo> {
     const app = createApp(config);
     const logger = getLogger();
 
+    // Under systemd socket activation, serve on the inherited socket instead of binding
+    const activationFd = getSocketActivationFd();
+    const listenTarget = activationFd !== null ? { fd: activationFd } : { port: config.listener.port };
+    const listenLabel = activationFd !== null ? 'on socket from systemd' : `on port ${config.listener.port}`;
+
     const tlsConfig = config.network.tls;
     const useHttps = tlsConfig.enabled &&
       fs.existsSync(tlsConfig.cert_path) &&
@@ -476,18 +1196,22 @@ export function startServer(config: Config): Promise<ServerInfo> {
       };
 
       server = https.createServer(httpsOptions, app);
-      server.listen(config.listener.port, () => {
-        logger.info(`Listener started on port ${config.listener.port} (HTTPS)`);
+      server.listen(listenTarget, () => {
+        logger.info(`Listener started ${listenLabel} (HTTPS)`);
         // Initialize monitoring WebSocket server
         monitoringManager.initialize(server!, config);
+        // Map the port on the router in the background
+        startPortMapping(config);
         resolve({ server: server!, protocol: 'https' });
       });
     } else {
       server = http.createServer(app);
-      server.listen(config.listener.port, () => {
-        logger.info(`Listener started on port ${config.listener.port} (HTTP)`);
+      server.listen(listenTarget, () => {
+        logger.info(`Listener started ${listenLabel} (HTTP)`);
         // Initialize monitoring WebSocket server
         monitoringManager.initialize(server!, config);
+        // Map the port on the router in the background
+        startPortMapping(config);
         resolve({ server: server!, protocol: 'http' });
       });
     }
@@ -507,16 +1231,19 @@ export function stopServer(): Promise<void> {
     // Shutdown monitoring first
     monitoringManager.shutdown();
 
-    if (server) {
-      const logger = getLogger();
-      logger.info('Listener stopped gracefully');
-      server.close(() => {
-        server = null;
+    // Remove the router port mapping before closing
+    stopPortMapping().then(() => {
+      if (server) {
+        const logger = getLogger();
+        logger.info('Listener stopped gracefully');
+        server.close(() => {
+          server = null;
+          resolve();
+        });
+      } else {
         resolve();
-      });
-    } else {
-      resolve();
-    }
+      }
+    });
   });
 }
 
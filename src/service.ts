@@ -0,0 +1,239 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { execFileSync } from 'child_process';
+import { Config } from './types';
+
+// systemd user units for running the listener on headless Linux machines
+
+export const SERVICE_NAME = 'thought-traveller';
+
+// First file descriptor systemd passes to socket-activated services
+const SD_LISTEN_FDS_START = 3;
+
+export interface ServiceInstallOptions {
+  socketActivation: boolean;
+}
+
+export interface UnitState {
+  installed: boolean;
+  enabled: string;   // output of `systemctl --user is-enabled`
+  active: string;    // output of `systemctl --user is-active`
+}
+
+export interface ServiceStatus {
+  service: UnitState;
+  socket: UnitState;
+  linger: boolean | null;   // null when loginctl could not be queried
+}
+
+export function getUserUnitDir(): string {
+  const configHome = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  return path.join(configHome, 'systemd', 'user');
+}
+
+export function getServiceUnitPath(): string {
+  return path.join(getUserUnitDir(), `${SERVICE_NAME}.service`);
+}
+
+export function getSocketUnitPath(): string {
+  return path.join(getUserUnitDir(), `${SERVICE_NAME}.socket`);
+}
+
+export function assertSystemdSupported(): void {
+  if (process.platform !== 'linux') {
+    throw new Error('systemd services are only supported on Linux');
+  }
+}
+
+// argv that runs this CLI: the bundled executable, or node plus the script
+export function getCliArgv(): string[] {
+  if ((process as any).pkg !== undefined) {
+    return [process.execPath];
+  }
+  return [process.execPath, path.resolve(process.argv[1])];
+}
+
+// Quote a word for ExecStart/Environment lines when it contains anything systemd would split on
+function quoteUnitValue(value: string): string {
+  if (/^[A-Za-z0-9_@%+=:,./-]+$/.test(value)) {
+    return value;
+  }
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+export function buildServiceUnit(options: ServiceInstallOptions): string {
+  const execStart = [...getCliArgv(), 'start'].map(quoteUnitValue).join(' ');
+  const environment = [
+    `HOME=${os.homedir()}`,
+    `PATH=${process.env.PATH || '/usr/local/bin:/usr/bin:/bin'}`,
+    'NODE_ENV=production',
+  ];
+
+  const lines = [
+    '[Unit]',
+    'Description=Thought Traveller listener',
+    'After=network-online.target',
+  ];
+  if (options.socketActivation) {
+    lines.push(`Requires=${SERVICE_NAME}.socket`, `After=${SERVICE_NAME}.socket`);
+  }
+
+  lines.push(
+    '',
+    '[Service]',
+    'Type=simple',
+    `ExecStart=${execStart}`,
+    ...environment.map((entry) => `Environment=${quoteUnitValue(entry)}`),
+    'Restart=on-failure',
+    'RestartSec=5',
+  );
+
+  // With socket activation the socket unit is what gets enabled
+  if (!options.socketActivation) {
+    lines.push('', '[Install]', 'WantedBy=default.target');
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+export function buildSocketUnit(config: Config): string {
+  return [
+    '[Unit]',
+    'Description=Thought Traveller listener socket',
+    '',
+    '[Socket]',
+    `ListenStream=${config.listener.port}`,
+    `Service=${SERVICE_NAME}.service`,
+    '',
+    '[Install]',
+    'WantedBy=sockets.target',
+  ].join('\n') + '\n';
+}
+
+function systemctl(...args: string[]): string {
+  return execFileSync('systemctl', ['--user', ...args], { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'] }).trim();
+}
+
+// is-enabled/is-active exit non-zero for states other than enabled/active but still print the state
+function queryUnit(command: 'is-enabled' | 'is-active', unit: string): string {
+  try {
+    return systemctl(command, unit);
+  } catch (err) {
+    const stdout = String((err as { stdout?: string }).stdout || '').trim();
+    return stdout || 'unknown';
+  }
+}
+
+function getUnitState(unit: string, unitPath: string): UnitState {
+  return {
+    installed: fs.existsSync(unitPath),
+    enabled: queryUnit('is-enabled', unit),
+    active: queryUnit('is-active', unit),
+  };
+}
+
+export function getLingerEnabled(): boolean | null {
+  try {
+    const output = execFileSync('loginctl', ['show-user', os.userInfo().username, '--property=Linger'], {
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+    return output.trim() === 'Linger=yes';
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Keep the user's systemd instance running after logout so the listener
+ * survives SSH sessions ending. Returns false if loginctl refused (it may need
+ * root on some distributions).
+ */
+export function enableLinger(): boolean {
+  if (getLingerEnabled()) {
+    return true;
+  }
+  try {
+    execFileSync('loginctl', ['enable-linger', os.userInfo().username], { stdio: 'ignore' });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function getServiceStatus(): ServiceStatus {
+  return {
+    service: getUnitState(`${SERVICE_NAME}.service`, getServiceUnitPath()),
+    socket: getUnitState(`${SERVICE_NAME}.socket`, getSocketUnitPath()),
+    linger: getLingerEnabled(),
+  };
+}
+
+/**
+ * Write the unit files, reload systemd and enable them. With socket activation
+ * only the socket is started; systemd launches the listener on the first connection.
+ */
+export function installService(config: Config, options: ServiceInstallOptions): void {
+  assertSystemdSupported();
+  fs.mkdirSync(getUserUnitDir(), { recursive: true });
+
+  // Switching modes: stop whatever the previous install started
+  uninstallUnits();
+
+  fs.writeFileSync(getServiceUnitPath(), buildServiceUnit(options), 'utf-8');
+  if (options.socketActivation) {
+    fs.writeFileSync(getSocketUnitPath(), buildSocketUnit(config), 'utf-8');
+  }
+
+  systemctl('daemon-reload');
+  systemctl('enable', '--now', options.socketActivation ? `${SERVICE_NAME}.socket` : `${SERVICE_NAME}.service`);
+}
+
+function uninstallUnits(): boolean {
+  let removed = false;
+  for (const [unit, unitPath] of [
+    [`${SERVICE_NAME}.socket`, getSocketUnitPath()],
+    [`${SERVICE_NAME}.service`, getServiceUnitPath()],
+  ]) {
+    if (!fs.existsSync(unitPath)) {
+      continue;
+    }
+    try {
+      systemctl('disable', '--now', unit);
+    } catch {
+      // Not loaded; removing the file is enough
+    }
+    fs.unlinkSync(unitPath);
+    removed = true;
+  }
+  return removed;
+}
+
+// Stop, disable and delete the units; returns false if none were installed
+export function uninstallService(): boolean {
+  assertSystemdSupported();
+  const removed = uninstallUnits();
+  if (removed) {
+    systemctl('daemon-reload');
+  }
+  return removed;
+}
+
+/**
+ * The listening socket systemd passed in, if this process was socket activated.
+ * Clears the variables so child processes don't think they were activated too.
+ */
+export function getSocketActivationFd(): number | null {
+  const listenPid = parseInt(process.env.LISTEN_PID || '', 10);
+  const listenFds = parseInt(process.env.LISTEN_FDS || '', 10);
+
+  if (listenPid !== process.pid || !(listenFds >= 1)) {
+    return null;
+  }
+
+  delete process.env.LISTEN_PID;
+  delete process.env.LISTEN_FDS;
+  delete process.env.LISTEN_FDNAMES;
+  return SD_LISTEN_FDS_START;
+}
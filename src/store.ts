@@ -0,0 +1,486 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Key-value store for the conversation and note indexes. State is a snapshot
+ * file plus an append-only journal of changes since it was written:
+ *
+ *   <name>.snapshot.json   full state, replaced atomically (temp file + rename)
+ *   <name>.journal         one JSON record per line, appended and fsynced
+ *   <name>.lock            held while writing, so the CLI and listener can share it
+ *
+ * Every change is a single journal line, so a crash mid-write loses at most
+ * that change; a torn last line is ignored on load and cut off before the next
+ * append. Records are absolute puts and deletes, so replaying a journal over a
+ * snapshot that already contains it is harmless. Once the journal grows past a
+ * threshold it is folded into a new snapshot.
+ */
+
+const COMPACT_AFTER_RECORDS = 1000;
+const LOCK_TIMEOUT_MS = 5000;
+const LOCK_STALE_MS = 30000;
+const LOCK_RETRY_MS = 10;
+
+type JournalOp<T> = { op: 'put'; key: string; value: T } | { op: 'delete'; key: string };
+type JournalRecord<T> = JournalOp<T> | { op: 'batch'; ops: JournalOp<T>[] };
+
+export interface StoreQuery {
+  project?: string;
+  since?: Date;
+  until?: Date;
+}
+
+export interface StoreOptions<T> {
+  dir: string;
+  name: string;
+  legacyPath?: string;               // JSON object file imported once, then renamed to .migrated
+  projectOf: (value: T) => string;
+  dateOf: (value: T) => string;      // ISO timestamp queries are ordered and filtered by
+}
+
+export interface StoreStats {
+  entries: number;
+  journal_records: number;
+  skipped_records: number;           // journal lines that could not be parsed
+}
+
+// Puts and deletes collected by transaction() and written as one journal record
+export class StoreTransaction<T> {
+  readonly ops: JournalOp<T>[] = [];
+
+  constructor(private readonly store: JournalStore<T>) {}
+
+  get(key: string): T | undefined {
+    for (let i = this.ops.length - 1; i >= 0; i--) {
+      if (this.ops[i].key === key) {
+        const op = this.ops[i];
+        return op.op === 'put' ? op.value : undefined;
+      }
+    }
+    return this.store.peek(key);
+  }
+
+  put(key: string, value: T): void {
+    this.ops.push({ op: 'put', key, value });
+  }
+
+  delete(key: string): void {
+    this.ops.push({ op: 'delete', key });
+  }
+}
+
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+function statOrNull(filePath: string): fs.Stats | null {
+  try {
+    return fs.statSync(filePath);
+  } catch {
+    return null;
+  }
+}
+
+// Changes whenever the file is replaced or rewritten
+function fileVersion(filePath: string): string {
+  const stats = statOrNull(filePath);
+  return stats ? `${stats.ino}:${stats.size}:${stats.mtimeMs}` : 'missing';
+}
+
+export class JournalStore<T> {
+  private readonly snapshotPath: string;
+  private readonly journalPath: string;
+  private readonly lockPath: string;
+
+  private entries = new Map<string, T>();
+  private journalIno: number | null = null;
+  private journalOffset = 0;
+  private journalRecords = 0;
+  private skippedRecords = 0;
+  private loaded = false;
+  private lockHeld = false;
+
+  // Secondary indexes, rebuilt lazily after changes
+  private byProject: Map<string, string[]> | null = null;
+  private byDate: string[] | null = null;
+
+  constructor(private readonly options: StoreOptions<T>) {
+    this.snapshotPath = path.join(options.dir, `${options.name}.snapshot.json`);
+    this.journalPath = path.join(options.dir, `${options.name}.journal`);
+    this.lockPath = path.join(options.dir, `${options.name}.lock`);
+  }
+
+  get(key: string): T | undefined {
+    this.refresh();
+    return this.entries.get(key);
+  }
+
+  // Current in-memory value without checking the journal for outside changes
+  peek(key: string): T | undefined {
+    return this.entries.get(key);
+  }
+
+  has(key: string): boolean {
+    this.refresh();
+    return this.entries.has(key);
+  }
+
+  get size(): number {
+    this.refresh();
+    return this.entries.size;
+  }
+
+  all(): Array<[string, T]> {
+    this.refresh();
+    return Array.from(this.entries.entries());
+  }
+
+  toObject(): Record<string, T> {
+    return Object.fromEntries(this.all());
+  }
+
+  put(key: string, value: T): void {
+    this.transaction((tx) => tx.put(key, value));
+  }
+
+  delete(key: string): boolean {
+    return this.transaction((tx) => {
+      const existed = tx.get(key) !== undefined;
+      tx.delete(key);
+      return existed;
+    });
+  }
+
+  /**
+   * Read-modify-write of one key under the lock. Return undefined from fn to
+   * delete the entry.
+   */
+  update(key: string, fn: (current: T | undefined) => T | undefined): T | undefined {
+    return this.transaction((tx) => {
+      const next = fn(tx.get(key));
+      if (next === undefined) {
+        tx.delete(key);
+      } else {
+        tx.put(key, next);
+      }
+      return next;
+    });
+  }
+
+  /**
+   * Run fn with the lock held and the latest state loaded, then write all of
+   * its changes as a single journal record: they land together or not at all.
+   */
+  transaction<R>(fn: (tx: StoreTransaction<T>) => R): R {
+    return this.withLock(() => {
+      this.refresh();
+      const tx = new StoreTransaction<T>(this);
+      const result = fn(tx);
+      if (tx.ops.length > 0) {
+        const record: JournalRecord<T> = tx.ops.length === 1 ? tx.ops[0] : { op: 'batch', ops: tx.ops };
+        this.append(record);
+        this.apply(record);
+        if (this.journalRecords >= COMPACT_AFTER_RECORDS) {
+          this.compactLocked();
+        }
+      }
+      return result;
+    });
+  }
+
+  // Entries matching the query, most recent first by dateOf
+  query(query: StoreQuery = {}): Array<[string, T]> {
+    this.refresh();
+    this.buildIndexes();
+
+    const keys = query.project ? this.byProject!.get(query.project) || [] : this.byDate!;
+    const since = query.since?.getTime();
+    const until = query.until?.getTime();
+
+    const result: Array<[string, T]> = [];
+    for (const key of keys) {
+      const value = this.entries.get(key)!;
+      const time = new Date(this.options.dateOf(value)).getTime();
+      if (until !== undefined && time > until) {
+        continue;
+      }
+      // Keys are ordered newest first, so nothing later can match
+      if (since !== undefined && time < since) {
+        break;
+      }
+      result.push([key, value]);
+    }
+    return result;
+  }
+
+  compact(): void {
+    this.withLock(() => {
+      this.refresh();
+      this.compactLocked();
+    });
+  }
+
+  stats(): StoreStats {
+    this.refresh();
+    return { entries: this.entries.size, journal_records: this.journalRecords, skipped_records: this.skippedRecords };
+  }
+
+  private invalidateIndexes(): void {
+    this.byProject = null;
+    this.byDate = null;
+  }
+
+  private buildIndexes(): void {
+    if (this.byDate && this.byProject) {
+      return;
+    }
+    const time = (key: string) => new Date(this.options.dateOf(this.entries.get(key)!)).getTime() || 0;
+    this.byDate = Array.from(this.entries.keys()).sort((a, b) => time(b) - time(a));
+    this.byProject = new Map();
+    for (const key of this.byDate) {
+      const project = this.options.projectOf(this.entries.get(key)!);
+      const keys = this.byProject.get(project) || [];
+      keys.push(key);
+      this.byProject.set(project, keys);
+    }
+  }
+
+  private apply(record: JournalRecord<T>): void {
+    const ops = record.op === 'batch' ? record.ops : [record];
+    for (const op of ops) {
+      if (op.op === 'put') {
+        this.entries.set(op.key, op.value);
+      } else {
+        this.entries.delete(op.key);
+      }
+    }
+    this.journalRecords++;
+    this.invalidateIndexes();
+  }
+
+  // Pick up changes written by this or another process since the last read
+  private refresh(): void {
+    if (!this.loaded) {
+      this.load();
+      return;
+    }
+    const stats = statOrNull(this.journalPath);
+    if (!stats) {
+      if (this.journalIno !== null) {
+        this.load();
+      }
+      return;
+    }
+    if (stats.ino !== this.journalIno || stats.size < this.journalOffset) {
+      // Compacted elsewhere: the snapshot has everything the old journal had
+      this.load();
+    } else if (stats.size > this.journalOffset) {
+      this.readJournal();
+    }
+  }
+
+  /**
+   * Read the snapshot and then the journal, without the lock. Another process
+   * may compact in between, leaving the old snapshot paired with the new empty
+   * journal, so start over if the snapshot was replaced while reading.
+   */
+  private load(): void {
+    fs.mkdirSync(this.options.dir, { recursive: true });
+    this.migrateLegacy();
+
+    let snapshotVersion: string;
+    do {
+      snapshotVersion = fileVersion(this.snapshotPath);
+
+      this.entries = new Map();
+      this.journalIno = null;
+      this.journalOffset = 0;
+      this.journalRecords = 0;
+      this.skippedRecords = 0;
+      this.invalidateIndexes();
+
+      const snapshot = this.readSnapshot();
+      if (snapshot) {
+        this.entries = new Map(Object.entries(snapshot));
+      }
+      if (fs.existsSync(this.journalPath)) {
+        this.readJournal();
+      }
+    } while (fileVersion(this.snapshotPath) !== snapshotVersion);
+
+    this.loaded = true;
+  }
+
+  private readSnapshot(): Record<string, T> | null {
+    try {
+      return JSON.parse(fs.readFileSync(this.snapshotPath, 'utf-8')) as Record<string, T>;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw err;
+    }
+  }
+
+  // Read from one open file, so the inode recorded is the one the records came from
+  private readJournal(): void {
+    let fd: number;
+    try {
+      fd = fs.openSync(this.journalPath, 'r');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw err;
+    }
+    let data: Buffer;
+    let ino: number;
+    try {
+      ino = fs.fstatSync(fd).ino;
+      if (this.journalIno !== null && ino !== this.journalIno) {
+        // Replaced since it was checked; the next refresh reloads everything
+        return;
+      }
+      data = fs.readFileSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    const chunk = data.subarray(this.journalOffset);
+    // Only complete lines; a torn last line is left for repairJournal
+    const end = chunk.lastIndexOf(0x0a);
+    if (end >= 0) {
+      for (const line of chunk.subarray(0, end).toString('utf-8').split('\n')) {
+        if (!line.trim()) {
+          continue;
+        }
+        try {
+          this.apply(JSON.parse(line) as JournalRecord<T>);
+        } catch {
+          this.skippedRecords++;
+        }
+      }
+      this.journalOffset += end + 1;
+    }
+    this.journalIno = ino;
+  }
+
+  // Cut off a partial record left by a crash so the next append starts on a fresh line
+  private repairJournal(): void {
+    const stats = statOrNull(this.journalPath);
+    if (stats && stats.size > this.journalOffset && stats.ino === this.journalIno) {
+      fs.truncateSync(this.journalPath, this.journalOffset);
+    }
+  }
+
+  private append(record: JournalRecord<T>): void {
+    this.repairJournal();
+    const line = Buffer.from(JSON.stringify(record) + '\n', 'utf-8');
+    const fd = fs.openSync(this.journalPath, 'a', 0o600);
+    try {
+      fs.writeSync(fd, line);
+      fs.fsyncSync(fd);
+      this.journalIno = fs.fstatSync(fd).ino;
+    } finally {
+      fs.closeSync(fd);
+    }
+    this.journalOffset += line.length;
+  }
+
+  private writeSnapshot(entries: Record<string, T>): void {
+    const tempPath = `${this.snapshotPath}.tmp`;
+    const fd = fs.openSync(tempPath, 'w', 0o600);
+    try {
+      fs.writeSync(fd, JSON.stringify(entries, null, 2));
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tempPath, this.snapshotPath);
+  }
+
+  private compactLocked(): void {
+    this.writeSnapshot(Object.fromEntries(this.entries));
+    // A new (empty) journal file, so other processes notice the inode change and reload
+    const tempPath = `${this.journalPath}.tmp`;
+    fs.writeFileSync(tempPath, '', { mode: 0o600 });
+    fs.renameSync(tempPath, this.journalPath);
+    const stats = fs.statSync(this.journalPath);
+    this.journalIno = stats.ino;
+    this.journalOffset = 0;
+    this.journalRecords = 0;
+    this.skippedRecords = 0;
+  }
+
+  // One-time import of the old whole-file JSON index
+  private migrateLegacy(): void {
+    const { legacyPath } = this.options;
+    if (!legacyPath || !fs.existsSync(legacyPath) || fs.existsSync(this.snapshotPath) || fs.existsSync(this.journalPath)) {
+      return;
+    }
+    this.withLock(() => {
+      if (fs.existsSync(this.snapshotPath) || !fs.existsSync(legacyPath)) {
+        return;   // Another process migrated it while we waited
+      }
+      const legacy = JSON.parse(fs.readFileSync(legacyPath, 'utf-8')) as Record<string, T>;
+      this.writeSnapshot(legacy);
+      fs.renameSync(legacyPath, `${legacyPath}.migrated`);
+    });
+  }
+
+  // Re-entrant: a transaction that is the first access loads, and so migrates, with the lock held
+  private withLock<R>(fn: () => R): R {
+    if (this.lockHeld) {
+      return fn();
+    }
+    fs.mkdirSync(this.options.dir, { recursive: true });
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    let fd: number | null = null;
+
+    while (fd === null) {
+      try {
+        fd = fs.openSync(this.lockPath, 'wx', 0o600);
+        fs.writeSync(fd, String(process.pid));
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw err;
+        }
+        this.removeStaleLock();
+        if (Date.now() > deadline) {
+          throw new Error(`Timed out waiting for ${this.lockPath}`);
+        }
+        sleepSync(LOCK_RETRY_MS);
+      }
+    }
+
+    this.lockHeld = true;
+    try {
+      return fn();
+    } finally {
+      this.lockHeld = false;
+      fs.closeSync(fd);
+      fs.rmSync(this.lockPath, { force: true });
+    }
+  }
+
+  // A lock left by a process that died, or held far longer than any write takes
+  private removeStaleLock(): void {
+    try {
+      const pid = parseInt(fs.readFileSync(this.lockPath, 'utf-8'), 10);
+      const age = Date.now() - fs.statSync(this.lockPath).mtimeMs;
+      if ((Number.isInteger(pid) && pid > 0 && !isProcessAlive(pid)) || age > LOCK_STALE_MS) {
+        fs.rmSync(this.lockPath, { force: true });
+      }
+    } catch {
+      // Released in the meantime
+    }
+  }
+}
@@ -21,11 +21,12 @@ export enum MenuId {
   SEP1 = 1,
   START = 2,
   STOP = 3,
-  SEP2 = 4,
-  SHOW_CONFIG = 5,
-  VIEW_LOGS = 6,
-  SEP3 = 7,
-  EXIT = 8,
+  PAIR = 4,
+  SEP2 = 5,
+  SHOW_CONFIG = 6,
+  VIEW_LOGS = 7,
+  SEP3 = 8,
+  EXIT = 9,
 }
 
 export function getLocalIP(): string {
@@ -84,6 +85,11 @@ export function buildMenu(isRunning: boolean, config: Config, protocol: 'http' |
         tooltip: 'Stop the listener service',
         enabled: isRunning,
       },
+      {
+        title: 'Pair New Device…',
+        tooltip: 'Show a QR code to pair a phone',
+        enabled: isRunning,
+      },
       { title: '-', tooltip: '', enabled: false },
       {
         title: 'Show Config',
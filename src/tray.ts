@@ -3,11 +3,15 @@
 import SysTray from 'systray2';
 import path from 'path';
 import fs from 'fs';
-import { loadConfig, configExists } from './config';
+import { loadConfig, configExists, getPairingImagePath } from './config';
 import { startServer, stopServer, ServerInfo } from './server';
-import { initLogger, getLogger } from './logger';
+import { initLogger, getLogger, applyLoggingConfig } from './logger';
 import { startBonjourAdvertising, stopBonjourAdvertising } from './bonjour';
-import { buildMenu, openConfigFile, openLogFile, MenuId, getLocalIP } from './tray-menu';
+import { getPortMappingStatus, onPortMappingChange } from './upnp';
+import { buildMenu, openConfigFile, openLogFile, openPath, MenuId, getLocalIP } from './tray-menu';
+import { createPairingCode, buildPairingUri, PAIRING_CODE_TTL_MS } from './pairing';
+import { encodeQrCode, renderQrCodePng } from './qrcode';
+import { getCertificateFingerprint } from './tls';
 import { Config } from './types';
 
 // Handle pkg bundled executable - ensure tray binary is accessible
@@ -49,6 +53,7 @@ async function startListener(): Promise<void> {
 
   try {
     currentConfig = loadConfig();
+    applyLoggingConfig(currentConfig.logging);
     serverInfo = await startServer(currentConfig);
     startBonjourAdvertising(currentConfig, serverInfo.protocol);
     getLogger().info(`Listener started on port ${currentConfig.listener.port} (${serverInfo.protocol.toUpperCase()})`);
@@ -76,7 +81,44 @@ async function stopListener(): Promise<void> {
   }
 }
 
+let pairingImageTimer: NodeJS.Timeout | null = null;
+
+function removePairingImage(): void {
+  if (pairingImageTimer) {
+    clearTimeout(pairingImageTimer);
+    pairingImageTimer = null;
+  }
+  fs.rmSync(getPairingImagePath(), { force: true });
+}
+
+// Same QR code as `tt pair`, written to an image file and opened in the default viewer
+function pairNewDevice(): void {
+  if (!serverInfo || !currentConfig) {
+    getLogger().info('Listener not running; start it before pairing');
+    return;
+  }
+
+  try {
+    const pairing = createPairingCode();
+    const url = `${serverInfo.protocol}://${getLocalIP()}:${currentConfig.listener.port}`;
+    const fingerprint = serverInfo.protocol === 'https' ? getCertificateFingerprint() : null;
+    const uri = buildPairingUri(currentConfig, url, pairing, fingerprint);
+
+    removePairingImage();
+    const imagePath = getPairingImagePath();
+    // The image holds a live pairing code, so keep it private and delete it once the code expires
+    fs.writeFileSync(imagePath, renderQrCodePng(encodeQrCode(uri)), { mode: 0o600 });
+    pairingImageTimer = setTimeout(removePairingImage, PAIRING_CODE_TTL_MS);
+
+    getLogger().info(`Pairing code created (expires ${pairing.expires_at})`);
+    openPath(imagePath);
+  } catch (err) {
+    getLogger().error(`Failed to create pairing code: ${(err as Error).message}`);
+  }
+}
+
 function quit(): void {
+  removePairingImage();
   getLogger().info('Exiting Thought Traveller');
 
   if (serverInfo) {
@@ -103,8 +145,13 @@ function updateMenuStatus(): void {
   const port = currentConfig.listener.port;
   const protocol = serverInfo?.protocol || 'http';
 
+  const mapping = getPortMappingStatus();
+  const external = mapping.state === 'mapped' && mapping.externalIp
+    ? ` · external ${mapping.externalIp}:${mapping.externalPort}`
+    : '';
+
   const infoText = running
-    ? `${protocol.toUpperCase()}://${ip}:${port}`
+    ? `${protocol.toUpperCase()}://${ip}:${port}${external}`
     : 'Listener Stopped';
 
   // Update info item
@@ -112,7 +159,9 @@ function updateMenuStatus(): void {
     type: 'update-item',
     item: {
       title: infoText,
-      tooltip: running ? 'Listener address' : 'Listener is not running',
+      tooltip: running
+        ? (external ? 'Listener address (local and via router port mapping)' : 'Listener address')
+        : 'Listener is not running',
       enabled: false,
     },
     seq_id: MenuId.INFO,
@@ -139,6 +188,17 @@ function updateMenuStatus(): void {
     },
     seq_id: MenuId.STOP,
   });
+
+  // Update pair button
+  systray.sendAction({
+    type: 'update-item',
+    item: {
+      title: 'Pair New Device…',
+      tooltip: 'Show a QR code to pair a phone',
+      enabled: running,
+    },
+    seq_id: MenuId.PAIR,
+  });
 }
 
 function handleMenuClick(seqId: number): void {
@@ -149,6 +209,9 @@ function handleMenuClick(seqId: number): void {
     case MenuId.STOP:
       stopListener();
       break;
+    case MenuId.PAIR:
+      pairNewDevice();
+      break;
     case MenuId.SHOW_CONFIG:
       openConfigFile();
       break;
@@ -170,11 +233,13 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
-  initLogger(true);
-
   currentConfig = loadConfig();
+  initLogger(true, currentConfig.logging, true);
   const menu = buildMenu(false, currentConfig, null);
 
+  // Show the external address once the router port mapping is up
+  onPortMappingChange(() => updateMenuStatus());
+
   process.on('SIGINT', quit);
   process.on('SIGTERM', quit);
 
@@ -3,6 +3,7 @@ export interface ListenerConfig {
   port: number;
   auth_token: string;
   friendly_name: string;
+  allow_shared_token?: boolean; // false: auth_token only works from this machine (CLI, hooks, MCP); default true
 }
 
 export interface ProjectConfig {
@@ -10,11 +11,14 @@ export interface ProjectConfig {
   name: string;
   path: string;
   briefFile?: string; // Optional path to PROJECT_BRIEF.md
+  filename_pattern?: string; // Overrides export.filename_pattern for this project
+  note_filename_pattern?: string; // Overrides export.note_filename_pattern for this project
 }
 
 export interface ExportConfig {
   format: 'markdown' | 'json';
   filename_pattern: string;
+  note_filename_pattern?: string;
   create_directories: boolean;
 }
 
@@ -26,6 +30,7 @@ export interface TlsConfig {
 
 export interface NetworkConfig {
   upnp_enabled: boolean;
+  upnp_ssdp_address?: string; // host:port to search for the gateway (default: SSDP multicast)
   bonjour_enabled: boolean;
   tls: TlsConfig;
 }
@@ -48,6 +53,34 @@ export interface MonitoringConfig {
   apns?: ApnsConfig;
 }
 
+export interface McpConfig {
+  http_enabled: boolean;  // Serve MCP at /mcp on the listener
+}
+
+// winston's npm levels, most severe first
+export type LogLevel = 'error' | 'warn' | 'info' | 'http' | 'verbose' | 'debug' | 'silly';
+
+// full: replace with a placeholder, hashed: short sha256, truncated: keep a prefix, off: log as is
+export type RedactionMode = 'full' | 'hashed' | 'truncated' | 'off';
+
+export interface LoggingConfig {
+  level: LogLevel;
+  max_size_mb: number;      // rotate once a log file reaches this size; 0 disables rotation
+  max_files: number;        // rotated copies kept per log file
+  retention_days: number;   // delete rotated copies older than this; 0 keeps them
+  compress: boolean;        // gzip rotated copies
+  redaction: RedactionMode; // how prompts, responses, paths and tokens appear in logs
+}
+
+// Per-IP limits on authenticated routes, /pair and the /monitor upgrade
+export interface RateLimitConfig {
+  enabled: boolean;
+  requests_per_minute: number;   // per IP; 0 for no limit. Loopback clients are exempt
+  max_failures: number;          // failed auth attempts before the first lockout
+  lockout_seconds: number;       // first lockout; doubles with each further failure
+  max_lockout_seconds: number;
+}
+
 export interface Config {
   listener: ListenerConfig;
   projects: ProjectConfig[];
@@ -55,6 +88,9 @@ export interface Config {
   network: NetworkConfig;
   briefs: BriefsConfig;
   monitoring?: MonitoringConfig;
+  mcp?: McpConfig;
+  logging?: Partial<LoggingConfig>;
+  rate_limit?: Partial<RateLimitConfig>;
 }
 
 export interface Message {
@@ -81,14 +117,89 @@ export interface ConversationPayload {
   };
 }
 
+export interface ConversationIndexEntry {
+  project_tag: string;
+  file_path: string;
+  created_at: string;
+  last_updated: string;
+  message_count: number;
+  message_hashes?: string[];   // One per message as the phone sent it; see continuity.ts
+}
+
 export interface ConversationIndex {
-  [conversationId: string]: {
-    project_tag: string;
-    file_path: string;
-    created_at: string;
-    last_updated: string;
-    message_count: number;
-  };
+  [conversationId: string]: ConversationIndexEntry;
+}
+
+// JSON export format (export.format = 'json')
+export interface ConversationArchiveContinuation {
+  timestamp: string;
+  previous_message_count: number;
+  messages_added: number;
+  metadata: ConversationPayload['metadata'];
+  // Set when the phone edited earlier messages: the archive's messages from this index on were replaced
+  revised_from?: number;
+  replaced_messages?: Message[];
+}
+
+export interface ConversationArchive {
+  format: 'thought-traveller-conversation';
+  archive_version: number;
+  conversation_id: string;
+  project_tag: string;
+  project_name: string;
+  created_at: string;
+  last_updated: string;
+  payload_version: string;
+  metadata: ConversationPayload['metadata'];
+  messages: Message[];
+  continuations: ConversationArchiveContinuation[];
+}
+
+// Conversation browsing types
+export interface ConversationSummary {
+  conversation_id: string;
+  project_tag: string;
+  file: string;
+  created_at: string;
+  last_updated: string;
+  message_count: number;
+}
+
+export interface ConversationMessageView {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp?: string; // Full timestamp (JSON exports only)
+  time?: string;      // Display time as written in Markdown exports
+}
+
+export interface ConversationsListResponse {
+  conversations: ConversationSummary[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface ConversationDetailResponse extends ConversationSummary {
+  format: ExportConfig['format'];
+  messages: ConversationMessageView[];
+}
+
+export interface ConversationSearchMatch {
+  message_index: number;
+  role: 'user' | 'assistant';
+  snippet: string;
+}
+
+export interface ConversationSearchResult extends ConversationSummary {
+  matches: ConversationSearchMatch[];
+}
+
+export interface ConversationSearchResponse {
+  query: string;
+  results: ConversationSearchResult[];
+  total: number;
+  limit: number;
+  offset: number;
 }
 
 export interface ProjectStatus {
@@ -99,31 +210,108 @@ export interface ProjectStatus {
   error?: string;
 }
 
+// Router port mapping (UPnP IGD or NAT-PMP)
+export interface PortMappingStatus {
+  state: 'disabled' | 'discovering' | 'mapped' | 'failed' | 'stopped';
+  method?: 'upnp' | 'natpmp';
+  gateway?: string;
+  externalIp?: string;
+  externalPort?: number;
+  internalPort?: number;
+  expiresAt?: string; // Absent for permanent mappings
+  error?: string;
+}
+
+export interface NetworkStatusResponse {
+  port_mapping: PortMappingStatus;
+}
+
+export interface ConnectedDevice {
+  device_id: string;
+  device_name: string;
+  connected_since: string;
+  last_seen: string;
+}
+
+// Reported over the control socket by `tt status`
+export interface ListenerProcessStatus {
+  pid: number;
+  mode: 'daemon' | 'foreground';
+  protocol: 'http' | 'https';
+  address: string;
+  port: number;
+  started_at: string;
+  uptime: number;
+  devices: ConnectedDevice[];
+  port_mapping: PortMappingStatus;
+  lockouts: IpLockout[];
+}
+
+// A client IP that is locked out after repeated failed auth attempts
+export interface IpLockout {
+  ip: string;
+  failures: number;
+  locked_until: string;
+}
+
 export interface HealthResponse {
   status: 'healthy';
   version: string;
   listener_id: string;
   uptime: number;
+  payload_versions: Record<PayloadKind, string[]>;
 }
 
 export interface ProjectsResponse {
   projects: ProjectStatus[];
 }
 
+/**
+ * How a continuation was matched against the history already saved:
+ * - in_sync: previous_message_count and the saved messages agreed
+ * - count_mismatch: the saved messages matched but previous_message_count did not;
+ *   only messages past the saved ones were appended
+ * - revised: earlier messages were edited on the phone; they were rewritten in a revision section
+ * - missing_file: nothing was saved for this conversation, or its file is gone, so a new file was started
+ */
+export type ReconciliationStatus = 'in_sync' | 'count_mismatch' | 'revised' | 'missing_file';
+
+export interface ContinuationReconciliation {
+  status: ReconciliationStatus;
+  previous_message_count: number;    // As sent by the phone
+  stored_message_count: number;      // Messages the listener had saved before this request
+  divergence_index: number;          // First saved message that differs from the payload
+  messages_added: number;            // Messages written to the file by this request
+  messages_revised: number;          // Saved messages those replace (revised only)
+  previous_file?: string;            // missing_file only: where the index said the file was
+}
+
 export interface ConversationSuccessResponse {
   success: true;
   action: 'created' | 'appended';
   file: string;
   path: string;
   messages_added?: number;
+  reconciliation?: ContinuationReconciliation;   // Continuations only
+}
+
+// One problem with a request body; field is a path such as "conversation.messages[2].role"
+export interface FieldError {
+  field: string;
+  message: string;
 }
 
 export interface ErrorResponse {
   error: string;
   project?: string;
   details?: string;
+  fields?: FieldError[];              // Invalid request body
+  supported_versions?: string[];      // Unsupported payload version
 }
 
+// Versioned request payloads (see schemas.ts)
+export type PayloadKind = 'conversation' | 'note';
+
 export interface BriefResponse {
   tag: string;
   name: string;
@@ -155,13 +343,17 @@ export interface NotePayload {
   };
 }
 
+export type NotePriority = NonNullable<NotePayload['priority']>;
+
 export interface NoteIndexEntry {
   project_tag: string;
   file_path: string;
   type: NoteType;
   title?: string;
   created_at: string;
+  updated_at?: string;
   completed?: boolean;
+  priority?: NotePriority;
 }
 
 export interface NotesIndex {
@@ -170,12 +362,56 @@ export interface NotesIndex {
 
 export interface NoteSuccessResponse {
   success: true;
-  action: 'created';
+  action: 'created' | 'updated';
   file: string;
   path: string;
   type: NoteType;
 }
 
+export interface NoteSummary {
+  note_id: string;
+  project_tag: string;
+  file: string;
+  type: NoteType;
+  title?: string;
+  created_at: string;
+  updated_at?: string;
+  completed?: boolean;
+  priority?: NotePriority;
+}
+
+export interface NotesListResponse {
+  notes: NoteSummary[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface NoteDetailResponse extends NoteSummary {
+  content: string;
+}
+
+// PATCH /notes/:id - omitted fields are left unchanged, priority null removes it
+export interface NoteUpdatePayload {
+  title?: string;
+  content?: string;
+  priority?: NotePriority | null;
+  completed?: boolean;
+  timestamp?: string;
+}
+
+export interface NoteUpdateResponse {
+  success: true;
+  action: 'updated';
+  note: NoteSummary;
+}
+
+export interface NoteDeleteResponse {
+  success: true;
+  action: 'deleted';
+  note_id: string;
+}
+
 // Monitoring types for bidirectional communication
 
 export enum MonitoringState {
@@ -190,6 +426,7 @@ export enum MonitoringState {
 export interface MonitoringSession {
   deviceId: string;
   deviceName: string;
+  verified: boolean;   // identified by a device token rather than self-reported
   apnsToken?: string;  // APNs device token for push notifications
   startTime: Date;
   lastSeen: Date;
@@ -222,6 +459,8 @@ export type MonitoringMessageType =
   | 'input_required'
   | 'input_response'
   | 'task_complete'
+  | 'permission_request'
+  | 'permission_response'
   | 'session_update'
   | 'error';
 
@@ -257,6 +496,27 @@ export interface InputResponsePayload {
   response: string;
 }
 
+// Tool permission approval (Claude Code PreToolUse hook)
+export type PermissionDecision = 'allow' | 'deny' | 'always_allow';
+
+export interface PermissionDetails {
+  toolName: string;
+  toolInput: Record<string, unknown>;
+  preview: string; // Command, diff or other summary shown on the phone
+}
+
+export interface PermissionRequestMessagePayload extends PermissionDetails {
+  sessionId: string;
+  projectTag: string;
+  prompt: string;
+  options: PermissionDecision[];
+}
+
+export interface PermissionResponsePayload {
+  sessionId: string;
+  decision: PermissionDecision;
+}
+
 export interface TaskCompletePayload {
   sessionId: string;
   projectTag: string;
@@ -278,6 +538,32 @@ export interface InputRequestPayload {
   options?: string[];
   input_type?: 'numeric' | 'yesno' | 'text';
   timeout_seconds?: number;
+  idempotency_key?: string; // Re-issuing with the same key waits on (or returns) the original request
+  async?: boolean;          // Return a request ID immediately instead of waiting for the answer
+  callback_url?: string;    // Local URL to POST the final status to (async mode)
+}
+
+// Durable record of an input request, persisted in pending-requests.json
+export type InputRequestStatus = 'pending' | 'answered' | 'expired' | 'cancelled';
+
+export interface InputRequestRecord {
+  requestId: string;
+  sessionId: string;
+  projectTag: string;
+  prompt: string;
+  options: string[];
+  inputType: 'numeric' | 'yesno' | 'text';
+  idempotencyKey?: string;
+  callbackUrl?: string;
+  createdAt: string;
+  deadline: string;
+  notifiedDevices: string[];
+  pushedViaApns: string[];
+  status: InputRequestStatus;
+  response?: string;
+  respondedBy?: string;
+  completedAt?: string;
+  permission?: PermissionDetails; // Set for tool permission requests
 }
 
 export interface InputRequestResponse {
@@ -287,8 +573,123 @@ export interface InputRequestResponse {
   response_time_ms: number;
 }
 
+export interface InputRequestAcceptedResponse {
+  success: true;
+  request_id: string;
+  status: InputRequestStatus;
+  status_url: string;
+}
+
+export interface InputRequestStatusResponse {
+  success: true;
+  request_id: string;
+  status: InputRequestStatus;
+  project_tag: string;
+  prompt: string;
+  options: string[];
+  input_type: 'numeric' | 'yesno' | 'text';
+  created_at: string;
+  deadline: string;
+  response?: string;
+  responded_by?: string;
+  completed_at?: string;
+  permission?: {
+    tool_name: string;
+    tool_input: Record<string, unknown>;
+    preview: string;
+  };
+}
+
+export interface TaskCompleteRequestPayload {
+  session_id?: string;
+  project_tag?: string;
+  summary?: string;
+}
+
+export interface TaskCompleteResponse {
+  success: true;
+  notified_devices: number;
+}
+
 export interface InputRequestErrorResponse {
   success: false;
   error: string;
   connected_devices: number;
 }
+
+// POST /permission-request
+export interface PermissionRequestBody {
+  project_tag?: string;
+  tool_name: string;
+  tool_input?: Record<string, unknown>;
+  preview?: string;          // Defaults to a summary built from tool_input
+  timeout_seconds?: number;
+  idempotency_key?: string;
+}
+
+// Per-project allowlist entry. No specifier allows every use of the tool;
+// a trailing * matches by prefix (e.g. "npm run *").
+export interface PermissionRule {
+  tool: string;
+  specifier?: string;
+  exact?: boolean;   // Specifier is literal, so a trailing * is not a wildcard; set for rules from the phone
+  created_at: string;
+  added_by?: string; // Device that chose "always allow", or "cli"
+}
+
+export interface PermissionsFile {
+  [projectTag: string]: PermissionRule[];
+}
+
+export interface PermissionRequestResponse {
+  success: true;
+  decision: 'allow' | 'deny';
+  source: 'allowlist' | 'mobile';
+  responded_by?: string;
+  rule?: PermissionRule; // Matching rule, or the rule just added by "always allow"
+}
+
+// A paired phone. Only a hash of its token is stored; the token itself is
+// shown once when the device is added.
+export interface DeviceRecord {
+  id: string;
+  name: string;
+  token_hash: string;
+  created_at: string;
+  last_seen_at?: string;
+  revoked_at?: string;
+}
+
+export interface DevicesFile {
+  devices: DeviceRecord[];
+}
+
+// Who a request was authenticated as: a registered device, or the shared
+// listener.auth_token (local CLI, hooks and phones paired before device tokens)
+export type AuthIdentity =
+  | { kind: 'device'; device: DeviceRecord }
+  | { kind: 'shared' };
+
+// One-time code shown in the pairing QR code (`tt pair`, tray "Pair New Device…")
+export interface PairingCode {
+  code: string;
+  expires_at: string;
+}
+
+export type PairingCodeStatus =
+  | { state: 'pending' }
+  | { state: 'paired'; device_id: string; device_name: string }
+  | { state: 'expired' };
+
+export interface PairRequestPayload {
+  code: string;
+  device_name: string;
+}
+
+export interface PairResponse {
+  success: true;
+  listener_id: string;
+  device_id: string;
+  device_name: string;
+  token: string;
+}
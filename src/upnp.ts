@@ -0,0 +1,482 @@
+import * as dgram from 'dgram';
+import * as fs from 'fs';
+import { execSync } from 'child_process';
+import { Config, PortMappingStatus } from './types';
+import { getLogger } from './logger';
+
+// Port forwarding on the home router: UPnP IGD (found via SSDP), falling back
+// to NAT-PMP on the default gateway. Runs behind network.upnp_enabled.
+
+const SSDP_MULTICAST_ADDRESS = '239.255.255.250:1900';
+const SSDP_SEARCH_TARGETS = [
+  'urn:schemas-upnp-org:device:InternetGatewayDevice:1',
+  'urn:schemas-upnp-org:device:InternetGatewayDevice:2',
+];
+const WAN_SERVICE_TYPES = [
+  'urn:schemas-upnp-org:service:WANIPConnection:2',
+  'urn:schemas-upnp-org:service:WANIPConnection:1',
+  'urn:schemas-upnp-org:service:WANPPPConnection:1',
+];
+const DISCOVERY_TIMEOUT = 3000;
+const SOAP_TIMEOUT = 5000;
+const DEFAULT_LEASE_SECONDS = 3600;
+const UPNP_ONLY_PERMANENT_LEASES = 725;
+const NATPMP_PORT = 5351;
+const NATPMP_RETRIES = 3;
+const NATPMP_INITIAL_TIMEOUT = 250;
+const MAPPING_DESCRIPTION = 'Thought Traveller';
+
+interface UpnpGateway {
+  controlUrl: string;
+  serviceType: string;
+  gatewayAddress: string;
+  internalClient: string;
+}
+
+interface ActiveMapping {
+  method: 'upnp' | 'natpmp';
+  gatewayAddress: string;
+  internalPort: number;
+  externalPort: number;
+  upnp?: UpnpGateway;
+}
+
+export interface PortMappingOptions {
+  ssdpAddress?: string;   // host:port to send M-SEARCH to (default: SSDP multicast group)
+  leaseSeconds?: number;
+  natPmp?: boolean;       // Try NAT-PMP when no UPnP gateway answers (default: true)
+}
+
+type PortMappingListener = (status: PortMappingStatus) => void;
+
+let status: PortMappingStatus = { state: 'disabled' };
+let activeMapping: ActiveMapping | null = null;
+let renewTimer: NodeJS.Timeout | null = null;
+// Bumped by every start and stop, so an attempt still in flight can tell it was superseded
+let generation = 0;
+const listeners: PortMappingListener[] = [];
+
+function setStatus(next: PortMappingStatus): void {
+  status = next;
+  listeners.forEach((listener) => listener({ ...status }));
+}
+
+export function getPortMappingStatus(): PortMappingStatus {
+  return { ...status };
+}
+
+// Called whenever the mapping state changes (mapped, renewed, failed, removed)
+export function onPortMappingChange(listener: PortMappingListener): void {
+  listeners.push(listener);
+}
+
+function parseHostPort(address: string, defaultPort: number): { host: string; port: number } {
+  const [host, port] = address.split(':');
+  return { host, port: port ? parseInt(port, 10) : defaultPort };
+}
+
+function xmlValue(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<(?:\\w+:)?${tag}>([^<]*)</(?:\\w+:)?${tag}>`));
+  return match ? match[1].trim() : undefined;
+}
+
+// The local address the OS would use to reach the gateway
+function getInternalAddress(gatewayAddress: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const socket = dgram.createSocket('udp4');
+    socket.connect(9, gatewayAddress, () => {
+      const { address } = socket.address();
+      socket.close();
+      resolve(address);
+    });
+    socket.on('error', (err) => {
+      socket.close();
+      reject(err);
+    });
+  });
+}
+
+// Send SSDP M-SEARCH requests and return the first gateway description URL
+function discoverGateway(ssdpAddress: string): Promise<{ location: string; address: string } | null> {
+  const { host, port } = parseHostPort(ssdpAddress, 1900);
+
+  return new Promise((resolve) => {
+    const socket = dgram.createSocket({ type: 'udp4', reuseAddr: true });
+    let settled = false;
+
+    const finish = (result: { location: string; address: string } | null) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      socket.close();
+      resolve(result);
+    };
+
+    const timer = setTimeout(() => finish(null), DISCOVERY_TIMEOUT);
+
+    socket.on('message', (message, rinfo) => {
+      const location = message.toString().match(/^location:\s*(.+)$/im);
+      if (location) {
+        finish({ location: location[1].trim(), address: rinfo.address });
+      }
+    });
+    socket.on('error', () => finish(null));
+
+    socket.bind(0, () => {
+      for (const searchTarget of SSDP_SEARCH_TARGETS) {
+        const request = [
+          'M-SEARCH * HTTP/1.1',
+          `HOST: ${host}:${port}`,
+          'MAN: "ssdp:discover"',
+          'MX: 2',
+          `ST: ${searchTarget}`,
+          '',
+          '',
+        ].join('\r\n');
+        socket.send(request, port, host);
+      }
+    });
+  });
+}
+
+// Find the WAN connection service in the gateway's device description
+async function loadGateway(location: string, gatewayAddress: string): Promise<UpnpGateway> {
+  const response = await fetch(location, { signal: AbortSignal.timeout(SOAP_TIMEOUT) });
+  if (!response.ok) {
+    throw new Error(`Gateway description returned HTTP ${response.status}`);
+  }
+  const xml = await response.text();
+
+  for (const serviceType of WAN_SERVICE_TYPES) {
+    const services = xml.match(/<service>[\s\S]*?<\/service>/g) || [];
+    const service = services.find((s) => xmlValue(s, 'serviceType') === serviceType);
+    const controlPath = service && xmlValue(service, 'controlURL');
+    if (controlPath) {
+      const base = xmlValue(xml, 'URLBase') || location;
+      return {
+        controlUrl: new URL(controlPath, base).toString(),
+        serviceType,
+        gatewayAddress,
+        internalClient: await getInternalAddress(gatewayAddress),
+      };
+    }
+  }
+  throw new Error('Gateway has no WAN IP or PPP connection service');
+}
+
+async function soapRequest(gateway: UpnpGateway, action: string, args: Record<string, string | number>): Promise<string> {
+  const body = Object.entries(args).map(([name, value]) => `<${name}>${value}</${name}>`).join('');
+  const envelope =
+    '<?xml version="1.0"?>' +
+    '<s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/" ' +
+    's:encodingStyle="http://schemas.xmlsoap.org/soap/encoding/">' +
+    `<s:Body><u:${action} xmlns:u="${gateway.serviceType}">${body}</u:${action}></s:Body>` +
+    '</s:Envelope>';
+
+  const response = await fetch(gateway.controlUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'text/xml; charset="utf-8"',
+      SOAPAction: `"${gateway.serviceType}#${action}"`,
+    },
+    body: envelope,
+    signal: AbortSignal.timeout(SOAP_TIMEOUT),
+  });
+  const xml = await response.text();
+
+  if (!response.ok) {
+    const code = xmlValue(xml, 'errorCode');
+    const description = xmlValue(xml, 'errorDescription');
+    throw Object.assign(
+      new Error(`${action} failed: ${description || `HTTP ${response.status}`}${code ? ` (${code})` : ''}`),
+      { upnpErrorCode: code ? parseInt(code, 10) : undefined }
+    );
+  }
+  return xml;
+}
+
+async function addUpnpMapping(gateway: UpnpGateway, port: number, leaseSeconds: number): Promise<number> {
+  const args = (lease: number) => ({
+    NewRemoteHost: '',
+    NewExternalPort: port,
+    NewProtocol: 'TCP',
+    NewInternalPort: port,
+    NewInternalClient: gateway.internalClient,
+    NewEnabled: 1,
+    NewPortMappingDescription: MAPPING_DESCRIPTION,
+    NewLeaseDuration: lease,
+  });
+
+  try {
+    await soapRequest(gateway, 'AddPortMapping', args(leaseSeconds));
+    return leaseSeconds;
+  } catch (err) {
+    // Some routers only accept permanent mappings; we still renew and remove them ourselves
+    if ((err as { upnpErrorCode?: number }).upnpErrorCode === UPNP_ONLY_PERMANENT_LEASES) {
+      await soapRequest(gateway, 'AddPortMapping', args(0));
+      return 0;
+    }
+    throw err;
+  }
+}
+
+/**
+ * The IPv4 default gateway, for NAT-PMP. Read from the routing table on
+ * Linux and from `route` on macOS; other platforms are not supported.
+ */
+function getDefaultGateway(): string | null {
+  try {
+    if (process.platform === 'linux') {
+      const lines = fs.readFileSync('/proc/net/route', 'utf-8').trim().split('\n').slice(1);
+      for (const line of lines) {
+        const [, destination, gateway] = line.trim().split(/\s+/);
+        if (destination === '00000000' && gateway !== '00000000') {
+          // Little-endian hex, e.g. 0101A8C0 -> 192.168.1.1
+          return gateway.match(/../g)!.reverse().map((byte) => parseInt(byte, 16)).join('.');
+        }
+      }
+    } else if (process.platform === 'darwin') {
+      const output = execSync('route -n get default', { encoding: 'utf-8' });
+      const match = output.match(/gateway:\s*([\d.]+)/);
+      if (match) {
+        return match[1];
+      }
+    }
+  } catch {
+    // Fall through
+  }
+  return null;
+}
+
+// One NAT-PMP request/response, retried with a doubling timeout (RFC 6886)
+function natPmpRequest(gatewayAddress: string, request: Buffer, expectedOp: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const socket = dgram.createSocket('udp4');
+    let attempt = 0;
+    let timer: NodeJS.Timeout;
+
+    const finish = (err: Error | null, response?: Buffer) => {
+      clearTimeout(timer);
+      socket.close();
+      if (err) {
+        reject(err);
+      } else {
+        resolve(response!);
+      }
+    };
+
+    const send = () => {
+      if (attempt >= NATPMP_RETRIES) {
+        finish(new Error('No NAT-PMP response from gateway'));
+        return;
+      }
+      socket.send(request, NATPMP_PORT, gatewayAddress);
+      timer = setTimeout(send, NATPMP_INITIAL_TIMEOUT * 2 ** attempt);
+      attempt++;
+    };
+
+    socket.on('message', (message) => {
+      if (message.length < 8 || message[1] !== expectedOp) {
+        return;
+      }
+      const resultCode = message.readUInt16BE(2);
+      if (resultCode !== 0) {
+        finish(new Error(`NAT-PMP request failed (result code ${resultCode})`));
+        return;
+      }
+      finish(null, message);
+    });
+    socket.on('error', (err) => finish(err));
+    send();
+  });
+}
+
+async function natPmpMap(gatewayAddress: string, port: number, leaseSeconds: number): Promise<{ externalPort: number; lifetime: number }> {
+  const request = Buffer.alloc(12);
+  request.writeUInt8(0, 0);     // version
+  request.writeUInt8(2, 1);     // map TCP
+  request.writeUInt16BE(port, 4);
+  request.writeUInt16BE(leaseSeconds === 0 ? 0 : port, 6);
+  request.writeUInt32BE(leaseSeconds, 8);
+  const response = await natPmpRequest(gatewayAddress, request, 130);
+  return { externalPort: response.readUInt16BE(10), lifetime: response.readUInt32BE(12) };
+}
+
+async function natPmpExternalAddress(gatewayAddress: string): Promise<string> {
+  const response = await natPmpRequest(gatewayAddress, Buffer.from([0, 0]), 128);
+  return Array.from(response.subarray(8, 12)).join('.');
+}
+
+async function removeMapping(mapping: ActiveMapping): Promise<void> {
+  if (mapping.method === 'upnp') {
+    await soapRequest(mapping.upnp!, 'DeletePortMapping', {
+      NewRemoteHost: '',
+      NewExternalPort: mapping.externalPort,
+      NewProtocol: 'TCP',
+    });
+  } else {
+    await natPmpMap(mapping.gatewayAddress, mapping.internalPort, 0);
+  }
+}
+
+// A mapping made after stopPortMapping ran must not stay open on the router
+async function discardMapping(mapping: ActiveMapping): Promise<void> {
+  try {
+    await removeMapping(mapping);
+    getLogger().info(`Port mapping removed after stop (port ${mapping.externalPort})`);
+  } catch (err) {
+    getLogger().warn(`Failed to remove port mapping made after stop: ${(err as Error).message}`);
+  }
+}
+
+// isCurrent turns false once the attempt has been superseded by a stop or restart
+async function createMapping(config: Config, options: PortMappingOptions, isCurrent: () => boolean): Promise<void> {
+  const logger = getLogger();
+  const port = config.listener.port;
+  const leaseSeconds = options.leaseSeconds ?? DEFAULT_LEASE_SECONDS;
+
+  const found = await discoverGateway(options.ssdpAddress || config.network.upnp_ssdp_address || SSDP_MULTICAST_ADDRESS);
+  if (!isCurrent()) {
+    return;
+  }
+  if (found) {
+    const gateway = await loadGateway(found.location, found.address);
+    if (!isCurrent()) {
+      return;
+    }
+    const lease = await addUpnpMapping(gateway, port, leaseSeconds);
+    const mapping: ActiveMapping = { method: 'upnp', gatewayAddress: gateway.gatewayAddress, internalPort: port, externalPort: port, upnp: gateway };
+    if (!isCurrent()) {
+      await discardMapping(mapping);
+      return;
+    }
+    const externalXml = await soapRequest(gateway, 'GetExternalIPAddress', {});
+    const externalIp = xmlValue(externalXml, 'NewExternalIPAddress');
+    if (!isCurrent()) {
+      await discardMapping(mapping);
+      return;
+    }
+
+    activeMapping = mapping;
+    setStatus({
+      state: 'mapped',
+      method: 'upnp',
+      gateway: gateway.gatewayAddress,
+      internalPort: port,
+      externalPort: port,
+      ...(externalIp && { externalIp }),
+      ...(lease > 0 && { expiresAt: new Date(Date.now() + lease * 1000).toISOString() }),
+    });
+    logger.info(`UPnP: Mapped external ${externalIp || '?'}:${port} → ${gateway.internalClient}:${port} via ${gateway.gatewayAddress}`);
+    return;
+  }
+
+  const gatewayAddress = options.natPmp === false ? null : getDefaultGateway();
+  if (!gatewayAddress) {
+    throw new Error('No UPnP gateway found on the local network');
+  }
+
+  const { externalPort, lifetime } = await natPmpMap(gatewayAddress, port, leaseSeconds);
+  const mapping: ActiveMapping = { method: 'natpmp', gatewayAddress, internalPort: port, externalPort };
+  if (!isCurrent()) {
+    await discardMapping(mapping);
+    return;
+  }
+  const externalIp = await natPmpExternalAddress(gatewayAddress);
+  if (!isCurrent()) {
+    await discardMapping(mapping);
+    return;
+  }
+
+  activeMapping = mapping;
+  setStatus({
+    state: 'mapped',
+    method: 'natpmp',
+    gateway: gatewayAddress,
+    internalPort: port,
+    externalPort,
+    externalIp,
+    expiresAt: new Date(Date.now() + lifetime * 1000).toISOString(),
+  });
+  logger.info(`NAT-PMP: Mapped external ${externalIp}:${externalPort} → port ${port} via ${gatewayAddress}`);
+}
+
+/**
+ * Map listener.port on the router and keep the mapping alive. Resolves once
+ * the first attempt finishes; failures are logged and retried at the next
+ * renewal rather than thrown, since the listener works fine on the LAN without it.
+ */
+export async function startPortMapping(config: Config, options: PortMappingOptions = {}): Promise<PortMappingStatus> {
+  const logger = getLogger();
+
+  if (!config.network.upnp_enabled) {
+    setStatus({ state: 'disabled' });
+    return getPortMappingStatus();
+  }
+
+  const leaseSeconds = options.leaseSeconds ?? DEFAULT_LEASE_SECONDS;
+  // Renew at half the lease; permanent mappings are refreshed on the same schedule
+  // in case the router restarted and forgot them
+  const renewMs = ((leaseSeconds || DEFAULT_LEASE_SECONDS) * 1000) / 2;
+
+  const run = ++generation;
+  const isCurrent = () => generation === run;
+
+  const attempt = async () => {
+    try {
+      await createMapping(config, options, isCurrent);
+    } catch (err) {
+      if (!isCurrent()) {
+        return;
+      }
+      activeMapping = null;
+      setStatus({ state: 'failed', internalPort: config.listener.port, error: (err as Error).message });
+      logger.warn(`Port mapping failed: ${(err as Error).message}`);
+    }
+  };
+
+  setStatus({ state: 'discovering', internalPort: config.listener.port });
+  await attempt();
+
+  // Stopped (or restarted) while the first attempt was running
+  if (!isCurrent()) {
+    return getPortMappingStatus();
+  }
+
+  if (renewTimer) {
+    clearInterval(renewTimer);
+  }
+  renewTimer = setInterval(attempt, renewMs);
+  renewTimer.unref();
+
+  return getPortMappingStatus();
+}
+
+// Remove the mapping from the router and stop renewing it
+export async function stopPortMapping(): Promise<void> {
+  const logger = getLogger();
+
+  generation++;
+  if (renewTimer) {
+    clearInterval(renewTimer);
+    renewTimer = null;
+  }
+
+  const mapping = activeMapping;
+  activeMapping = null;
+
+  if (mapping) {
+    try {
+      await removeMapping(mapping);
+      logger.info(`Port mapping removed (${mapping.method === 'upnp' ? 'UPnP' : 'NAT-PMP'} port ${mapping.externalPort})`);
+    } catch (err) {
+      logger.warn(`Failed to remove port mapping: ${(err as Error).message}`);
+    }
+  }
+
+  if (status.state !== 'disabled') {
+    setStatus({ state: 'stopped' });
+  }
+}
@@ -0,0 +1,154 @@
+import { Request, Response, NextFunction } from 'express';
+import { ErrorResponse, FieldError } from './types';
+
+// Request body validation against JSON Schemas (the subset of keywords below).
+// Schemas live in schemas.ts; properties they don't list are allowed, so a
+// newer app can send fields this listener doesn't know about yet.
+
+type SchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'null';
+
+export interface JsonSchema {
+  type: SchemaType | SchemaType[];
+  description?: string;
+  // string
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: 'date-time';
+  enum?: ReadonlyArray<string | null>;
+  // number / integer
+  minimum?: number;
+  exclusiveMinimum?: number;
+  maximum?: number;
+  // array
+  items?: JsonSchema;
+  maxItems?: number;
+  // object
+  properties?: Record<string, JsonSchema>;
+  required?: readonly string[];
+}
+
+// More than this many problems in one body are summarized rather than listed
+const MAX_REPORTED_ERRORS = 20;
+
+function typeOf(value: unknown): SchemaType {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  return typeof value as SchemaType;
+}
+
+function matchesType(value: unknown, types: SchemaType[]): boolean {
+  const actual = typeOf(value);
+  return types.includes(actual) || (actual === 'integer' && types.includes('number'));
+}
+
+function childPath(parent: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${parent}[${key}]`;
+  }
+  return parent ? `${parent}.${key}` : key;
+}
+
+function describeTypes(types: SchemaType[]): string {
+  const names = types.map((type) => (type === 'integer' ? 'an integer' : type === 'array' || type === 'object' ? `an ${type}` : `a ${type}`));
+  return names.length > 1 ? names.slice(0, -1).join(', ') + ' or ' + names[names.length - 1] : names[0];
+}
+
+function check(value: unknown, schema: JsonSchema, field: string, errors: FieldError[]): void {
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  const at = field || 'body';
+
+  if (!matchesType(value, types)) {
+    errors.push({ field: at, message: `must be ${describeTypes(types)}, got ${typeOf(value)}` });
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | null)) {
+    errors.push({ field: at, message: `must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}` });
+    return;
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ field: at, message: schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters` });
+    } else if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push({ field: at, message: `must be at most ${schema.maxLength} characters` });
+    } else if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push({ field: at, message: `must match ${schema.pattern}` });
+    } else if (schema.format === 'date-time' && isNaN(Date.parse(value))) {
+      errors.push({ field: at, message: 'must be an ISO 8601 date-time' });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ field: at, message: `must be at least ${schema.minimum}` });
+    } else if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      errors.push({ field: at, message: `must be greater than ${schema.exclusiveMinimum}` });
+    } else if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ field: at, message: `must be at most ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push({ field: at, message: `must have at most ${schema.maxItems} items` });
+    }
+    if (schema.items) {
+      value.forEach((item, i) => check(item, schema.items!, childPath(field, i), errors));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (object[key] === undefined) {
+        errors.push({ field: childPath(field, key), message: 'is required' });
+      }
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+      if (object[key] !== undefined) {
+        check(object[key], propertySchema, childPath(field, key), errors);
+      }
+    }
+  }
+}
+
+// Field-level problems with a value, in document order; empty when it is valid
+export function validate(value: unknown, schema: JsonSchema): FieldError[] {
+  const errors: FieldError[] = [];
+  check(value, schema, '', errors);
+  return errors;
+}
+
+// 400 listing every problem, e.g. details "conversation.messages[2].role: must be one of ..."
+export function sendValidationError(res: Response, errors: FieldError[]): void {
+  const listed = errors.slice(0, MAX_REPORTED_ERRORS);
+  const more = errors.length - listed.length;
+  const response: ErrorResponse = {
+    error: 'Invalid request body',
+    details: listed.map((e) => `${e.field}: ${e.message}`).join('; ') + (more > 0 ? `; and ${more} more` : ''),
+    fields: listed,
+  };
+  res.status(400).json(response);
+}
+
+// Route middleware that rejects bodies not matching the schema before the handler runs
+export function validateBody(schema: JsonSchema) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    // express.json leaves the body undefined when there is none
+    const errors = validate(req.body ?? {}, schema);
+    if (errors.length > 0) {
+      sendValidationError(res, errors);
+      return;
+    }
+    next();
+  };
+}